@@ -1,36 +1,307 @@
 /* eslint-disable @typescript-eslint/method-signature-style */
 import EventEmitter from '@kakang/eventemitter'
-import AggregateBuilder, { MatchPipeline, SortPipeline } from '@kakang/mongodb-aggregate-builder'
-import { isEmpty, isExist, isObject, isString } from '@kakang/validator'
-import { AggregateOptions, BulkWriteOptions, Collection, CreateIndexesOptions, DeleteOptions, Document, Filter, FindOneAndDeleteOptions, FindOneAndUpdateOptions, FindOptions, IndexSpecification, InsertOneOptions, OptionalUnlessRequiredId, UpdateFilter, UpdateOptions } from 'mongodb'
+import AggregateBuilder, { MatchPipeline } from '@kakang/mongodb-aggregate-builder'
+import { randomUUID } from 'crypto'
+import { isArray, isEmpty, isExist, isNull, isNumber, isObject, isString, isUndefined } from '@kakang/validator'
+import { AggregateOptions, AnyBulkWriteOperation, BulkWriteOptions, BulkWriteResult, ChangeStream, ChangeStreamDeleteDocument, ChangeStreamDocument, ChangeStreamInsertDocument, ChangeStreamOptions, ChangeStreamReplaceDocument, ChangeStreamUpdateDocument, ClientSession, Collection, CreateIndexesOptions, Db, DeleteOptions, Document, Filter, FindOneAndDeleteOptions, FindOneAndUpdateOptions, FindOptions, IndexSpecification, InsertOneOptions, MongoBulkWriteError, MongoClient, OptionalId, OptionalUnlessRequiredId, TransactionOptions, UpdateFilter, UpdateOptions } from 'mongodb'
 import { P } from 'pino'
-import { kCollection, kCreateIndex, kIndexes, kLogger, kSkipIndex } from '../symbols'
-import { appendBasicSchema, appendUpdateSchema } from '../utils/append'
+import { Readable, Writable } from 'stream'
+import { finished } from 'stream/promises'
+import { kActor, kCache, kCacheGeneration, kCacheOptions, kCacheStats, kCollection, kCreateIndex, kDb, kIdStrategy, kIndexes, kInitialize, kLogger, kPolicies, kReady, kRelations, kSchema, kSchemaValidator, kSkipIndex, kTenantId, kTenantResolver, kWaitReady } from '../symbols'
+import { appendBasicSchema, AppendSchemaOptions, appendUpdateSchema } from '../utils/append'
+import { CacheStats, CacheStore, computeCacheKey, LRUCacheStore } from '../utils/cache'
 import { createLogger } from '../utils/logger'
 import { noop } from '../utils/noop'
-import { computeSharedOption } from '../utils/option'
-import { findNextPair, normalize, normalizeQueryDate, transformRegExpSearch } from '../utils/query'
+import { computeKeysetQuery, CursorData, decodeCursor, encodeCursor, retrieveValueByPath } from '../utils/cursor'
+import { ConflictError, ForbiddenError, QueryPolicyError, SoftDeletedError, ValidationError } from '../utils/error'
+import { IdStrategy, IdStrategyOption, resolveIdStrategy } from '../utils/id'
+import { computeIndexName, diffIndexOptions, IndexSyncReport, isSameIndexKey, normalizeIndexKey } from '../utils/indexes'
+import { compileFilter, parseFilter, retrieveFilterKeys } from '../utils/filter'
+import { computeSharedOption, computeTransactionOption } from '../utils/option'
+import { isAllowedKey, isUpdateQuery, mergeQueryFilter, normalize, normalizeQueryDate, parseProjection, parseSort, retrieveFilterEquality, retrieveQueryOperators, retrieveUpdateQueryData, transformRegExpSearch } from '../utils/query'
+import { matchPolicyFilter, Policies, PolicyOperation } from '../utils/policy'
+import { JSONSchema, validate } from '../utils/schema'
+import { TransactionContext, transactionStorage } from '../utils/transaction'
+import { CSVColumn, ExportSerializer, ImportRecord, readImportRecords, TransferFormat, writeChunk } from '../utils/transfer'
+
+const kLogicalOperators = new Set(['$and', '$or', '$nor'])
+
+// view share the state and listeners with the target, only the given key is overridden
+function createView<T extends object> (target: T, key: symbol, value: unknown): T {
+  return new Proxy(target, {
+    get (target, k, receiver) {
+      if (k === key) return value
+      return Reflect.get(target, k, receiver)
+    }
+  })
+}
+
+// "a.b" is the same as { path: 'a', populate: 'b' }, paths with same relation are merged
+function normalizePopulate (populate?: Populate | Populate[]): Array<PopulatePath & { populate: Populate[] }> {
+  const paths = new Map<string, PopulatePath & { populate: Populate[] }>()
+  for (const item of ([] as Populate[]).concat(populate ?? [])) {
+    const o = isString(item) ? { path: item } : item
+    const [path, ...rest] = o.path.split('.')
+    const nested = rest.length > 0 ? [{ ...o, path: rest.join('.') }] : ([] as Populate[]).concat(o.populate ?? [])
+    const fields = rest.length > 0 ? undefined : o.fields
+    const found = paths.get(path)
+    if (found === undefined) {
+      paths.set(path, { path, fields, populate: nested })
+    } else {
+      found.fields ??= fields
+      found.populate.push(...nested)
+    }
+  }
+  return Array.from(paths.values())
+}
+
+// lookup of populate can be nested inside $facet
+function findLookupStage (pipeline: any[], as: string): any {
+  for (const stage of pipeline) {
+    if (stage.$lookup?.as === as) return stage.$lookup
+    for (const nested of Object.values<any[]>(stage.$facet ?? {})) {
+      const found = findLookupStage(nested, as)
+      if (!isUndefined(found)) return found
+    }
+  }
+  return undefined
+}
 
 export interface MongoDBIndex {
   indexSpec: IndexSpecification
   options?: CreateIndexesOptions
 }
 
+export interface IndexSyncOptions {
+  // drop the indexes which are not declared
+  dropStale?: boolean
+  // drop and create the indexes which options are changed
+  rebuildChanged?: boolean
+}
+
+export interface CacheOptions {
+  // in-memory LRU store is used when not provided
+  store?: CacheStore
+  // maximum number of entries of the default store
+  max?: number
+  // ttl in milliseconds, 0 means no expiry
+  ttl?: number
+  // findById is always cached, findOne and search are opt-in
+  findOne?: boolean
+  search?: boolean
+}
+
+export type BulkOperation<TSchema extends Document = Document> =
+  | { insertOne: { document: TSchema } }
+  | { updateOne: { filter: Filter<TSchema>, update: UpdateFilter<TSchema> | Partial<TSchema> } }
+  | { updateMany: { filter: Filter<TSchema>, update: UpdateFilter<TSchema> | Partial<TSchema> } }
+  | { deleteOne: { filter: Filter<TSchema> } }
+  | { deleteMany: { filter: Filter<TSchema> } }
+
+export type BulkOperationType = 'insertOne' | 'updateOne' | 'updateMany' | 'deleteOne' | 'deleteMany'
+
+const kBulkPolicyOperations: Record<BulkOperationType, PolicyOperation> = {
+  insertOne: 'insert',
+  updateOne: 'update',
+  updateMany: 'update',
+  deleteOne: 'delete',
+  deleteMany: 'delete'
+}
+
+export interface BulkOperationResult {
+  index: number
+  operation: BulkOperationType
+  // false when the operation is rejected, failed or not executed in ordered mode
+  ok: boolean
+  // id of the inserted document
+  id?: string
+  error?: Error
+}
+
+export interface BulkResult {
+  ok: boolean
+  insertedCount: number
+  matchedCount: number
+  // deletion is counted as modified when softDelete is enabled
+  modifiedCount: number
+  deletedCount: number
+  results: BulkOperationResult[]
+}
+
+export interface WatchOptions extends ChangeStreamOptions {
+  // extra stages appended after the operation type match, e.g. [{ $match: { 'fullDocument.status': 'active' } }]
+  pipeline?: Document[]
+}
+
 export interface ControllerOptions {
   logger: P.LoggerOptions | P.BaseLogger
   skipIndex: boolean
   autoRegExpSearch: boolean
   searchFields: string[]
+  // text mode use $text query, a text index is created over searchFields
+  searchMode: 'regex' | 'text'
+  searchWeights?: Record<string, number>
   postMatchKeywords: string[]
   indexes: MongoDBIndex[]
+  // keys which can be used in filter and sort, all keys are allowed when not provided
+  filterableFields?: string[]
+  sortableFields?: string[]
+  // operators which can be used in search and filter
+  allowedOperators?: string[]
+  deniedOperators: string[]
+  // stamp deletedAt instead of removing the document
+  softDelete: boolean
+  // version field used for optimistic concurrency control
+  versionKey: string | false
+  // field names of the basic schema, false disables the timestamp
+  idKey: string
+  createdAtKey: string | false
+  updatedAtKey: string | false
+  // validate inserts and updates before writing
+  schema?: JSONSchema
+  // install the schema as $jsonSchema collection validator
+  schemaValidator: boolean
+  // database of the collection, required by schemaValidator
+  db?: Db
+  // wait for ready before every operation
+  waitReady: boolean
+  // read-through cache for findById, findOne and search
+  cache: boolean | CacheOptions
+  // id format is validated by the *ById methods only when it is provided
+  idStrategy?: IdStrategyOption
+  // tenant field injected into every filter and insert, disabled by default
+  tenantKey: string | false
+  // used when the tenant is not provided by forTenant
+  tenantResolver?: () => string | undefined
+  // row-level policies evaluated before the pre-* events, actor is provided by forActor
+  policies?: Policies
+  // relations which can be populated by search, find and findById
+  relations?: Record<string, RelationOptions>
+}
+
+export interface VersionOptions {
+  expectedVersion?: number
+}
+
+export interface SoftDeleteOptions {
+  includeDeleted?: boolean
+  onlyDeleted?: boolean
+}
+
+export interface PreserveOptions {
+  // id, timestamps and version of the document are kept when present, used by import
+  preserve?: boolean
+}
+
+export interface FieldsOptions {
+  // projection in the format of "+a,-b"
+  fields?: string
+}
+
+export interface RelationOptions {
+  // function is resolved lazily, so two controllers can relate to each other
+  controller: Controller<any> | (() => Controller<any>)
+  localField: string
+  // id of the related controller when not provided
+  foreignField?: string
+  // populate as single document instead of array
+  single?: boolean
+}
+
+export interface PopulatePath {
+  // name of relation, dot notation is nested populate, e.g. "author.company"
+  path: string
+  // projection of related documents in the format of "+a,-b"
+  fields?: string
+  populate?: Populate | Populate[]
+}
+
+export type Populate = string | PopulatePath
+
+export interface PopulateOptions {
+  populate?: Populate | Populate[]
+}
+
+export interface FacetOptions {
+  field: string
+  // numeric or date boundaries for $bucket, value is the lower boundary
+  boundaries?: Array<number | Date>
+  // bucket of values outside boundaries, they are excluded when not provided
+  default?: string
+}
+
+export interface FacetBucket {
+  value: unknown
+  count: number
 }
 
-export interface SearchOptions {
+export interface SearchOptions extends SoftDeleteOptions, FieldsOptions, PopulateOptions {
   search?: string | Record<string, unknown>
   filter?: string | Record<string, unknown>
   sort?: string
   page?: number
   pageSize?: number
+  // opaque cursor returned by searchWithCursor
+  cursor?: string
+  // used by searchWithFacets
+  facets?: Array<string | FacetOptions>
+}
+
+export interface PaginatedSearchResult<U> {
+  data: U[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+export interface FacetSearchResult<U> {
+  data: U[]
+  facets: Record<string, FacetBucket[]>
+}
+
+export interface UpsertResult<TSchema> {
+  // false when the existing document is updated
+  created: boolean
+  document: TSchema | null
+}
+
+export interface ExportOptions extends SearchOptions {
+  format: TransferFormat
+  // csv only, columns are taken from the first document when not provided
+  columns?: Array<string | CSVColumn>
+  // export-progress is emitted every batchSize documents
+  batchSize?: number
+}
+
+export interface ImportOptions {
+  format: TransferFormat
+  // upsert match the existing document by id
+  mode?: 'insert' | 'upsert'
+  // documents written by each insertMany, import-progress is emitted after each batch
+  batchSize?: number
+  // csv only, every header is imported as field when not provided
+  columns?: Array<string | CSVColumn>
+}
+
+export interface ImportRowError {
+  // 1-based index of the record, header is not counted
+  row: number
+  error: Error
+}
+
+export interface ImportResult {
+  // number of records read, including the failed one
+  processed: number
+  insertedCount: number
+  updatedCount: number
+  errors: ImportRowError[]
+}
+
+export interface CursorSearchResult<U> {
+  data: U[]
+  nextCursor: string | null
+  prevCursor: string | null
 }
 
 export class Controller<TSchema extends Document = Document> extends EventEmitter {
@@ -38,13 +309,40 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
   private [kLogger]: P.BaseLogger
   private [kIndexes]: MongoDBIndex[]
   private [kSkipIndex]: boolean
+  private [kSchema]?: JSONSchema
+  private [kSchemaValidator]: boolean
+  private [kDb]?: Db
+  private [kWaitReady]: boolean
+  private [kReady]: Promise<void>
+  private [kIdStrategy]?: IdStrategy
+  private [kTenantId]?: string
+  private [kTenantResolver]?: () => string | undefined
+  private [kActor]?: unknown
+  private [kPolicies]: Policies
+  private [kRelations]: Record<string, RelationOptions>
+  private [kCache]: CacheStore | null
+  private [kCacheOptions]: CacheOptions
+  private [kCacheStats]: CacheStats
+  // query results are keyed by generation, so any write invalidate them
+  private [kCacheGeneration]: number
 
   autoRegExpSearch: boolean
   searchFields: string[]
+  searchMode: 'regex' | 'text'
   // used to check if we should append before aggregation
   // it is useful to reduce to time of heavy computation when
   // using aggregation
   postMatchKeywords: string[]
+  filterableFields?: string[]
+  sortableFields?: string[]
+  allowedOperators?: string[]
+  deniedOperators: string[]
+  softDelete: boolean
+  versionKey: string | false
+  idKey: string
+  createdAtKey: string | false
+  updatedAtKey: string | false
+  tenantKey: string | false
 
   get collection (): Collection<TSchema> {
     return this[kCollection]
@@ -70,44 +368,456 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     this[kCollection] = null as any
     this.collection = collection
     this[kLogger] = createLogger(this.collectionName, options?.logger)
-    this[kIndexes] = [{ indexSpec: { id: 1 }, options: { unique: true } }]
+    // text index can only be created over searchFields
+    if (options?.searchMode === 'text' && (options.searchFields?.length ?? 0) === 0) throw new Error('searchFields expected to be non-empty when searchMode is "text"')
+    this.idKey = options?.idKey ?? 'id'
+    this.createdAtKey = options?.createdAtKey ?? 'createdAt'
+    this.updatedAtKey = options?.updatedAtKey ?? 'updatedAt'
+    this.tenantKey = options?.tenantKey ?? false
+    // id is unique inside each tenant
+    this[kIndexes] = [{ indexSpec: isString(this.tenantKey) ? { [this.tenantKey]: 1, [this.idKey]: 1 } : { [this.idKey]: 1 }, options: { unique: true } }]
     this[kIndexes].push(...(options?.indexes ?? []))
+    if (options?.searchMode === 'text') {
+      const indexSpec = Object.fromEntries((options.searchFields ?? []).map((field) => [field, 'text'])) as IndexSpecification
+      this[kIndexes].push({ indexSpec, options: isExist(options.searchWeights) ? { weights: options.searchWeights } : {} })
+    }
     this[kSkipIndex] = options?.skipIndex ?? false
 
     this.autoRegExpSearch = options?.autoRegExpSearch ?? true
     this.searchFields = options?.searchFields ?? []
+    this.searchMode = options?.searchMode ?? 'regex'
     this.postMatchKeywords = options?.postMatchKeywords ?? []
-    if (!this[kSkipIndex]) this[kCreateIndex]()
+    this.filterableFields = options?.filterableFields
+    this.sortableFields = options?.sortableFields
+    this.allowedOperators = options?.allowedOperators
+    this.deniedOperators = options?.deniedOperators ?? []
+    this.softDelete = options?.softDelete ?? false
+    this.versionKey = options?.versionKey ?? false
+    this[kSchema] = options?.schema
+    this[kSchemaValidator] = options?.schemaValidator ?? false
+    if (this[kSchemaValidator] && isEmpty(options?.db)) throw new Error('db expected to be an object when schemaValidator is enabled, but recieved "' + typeof options?.db + '"')
+    this[kDb] = options?.db
+    this[kWaitReady] = options?.waitReady ?? false
+    this[kTenantResolver] = options?.tenantResolver
+    this[kPolicies] = options?.policies ?? {}
+    this[kRelations] = options?.relations ?? {}
+    this[kIdStrategy] = options?.idStrategy === undefined ? undefined : resolveIdStrategy(options.idStrategy)
+    this[kCacheOptions] = isObject(options?.cache) ? options?.cache as CacheOptions : {}
+    this[kCache] = options?.cache === true || isObject(options?.cache)
+      ? this[kCacheOptions].store ?? new LRUCacheStore({ max: this[kCacheOptions].max, ttl: this[kCacheOptions].ttl })
+      : null
+    this[kCacheStats] = { hits: 0, misses: 0 }
+    this[kCacheGeneration] = 0
+    if (this[kCache] !== null) this.registerCacheInvalidation()
+    this[kReady] = this[kInitialize]()
+    // error is re-thrown by ready, we only log here to prevent unhandled rejection
+    this[kReady].catch((err) => {
+      this.logger.error({ func: 'constructor', meta: { err } }, 'failed to initialize')
+    })
 
     this.emit('initialized').finally(noop)
     this.logger.debug({ func: 'constructor', meta: { options } }, 'created')
   }
 
+  async [kInitialize] (): Promise<void> {
+    // validator must be installed before the collection is created by index
+    if (this[kSchemaValidator]) await this.installSchemaValidator()
+    if (!this[kSkipIndex]) await this[kCreateIndex]()
+  }
+
+  // resolved when the async setup in constructor is finished
+  async ready (): Promise<void> {
+    return await this[kReady]
+  }
+
+  /**
+   * Tenant
+   */
+  // scoped view which share the state and listeners with this controller
+  forTenant (tenantId: string): this {
+    if (!isString(this.tenantKey)) throw new Error('tenantKey is required for tenant scoping')
+    if (!isString(tenantId) || tenantId === '') throw new Error('tenant expected to be a non-empty string, but recieved "' + String(tenantId) + '"')
+    return createView(this, kTenantId, tenantId)
+  }
+
+  // undefined when tenant scoping is disabled
+  computeTenantId (): string | undefined {
+    if (!isString(this.tenantKey)) return undefined
+    const tenantId = this[kTenantId] ?? this[kTenantResolver]?.()
+    // operation without tenant must not touch the data of all tenants
+    if (!isString(tenantId) || tenantId === '') throw new Error('tenant is not resolved')
+    return tenantId
+  }
+
+  /**
+   * Policy
+   */
+  // scoped view which pass the actor to policies
+  forActor (actor: unknown): this {
+    return createView(this, kActor, actor)
+  }
+
+  // false means no extra filter, ForbiddenError is thrown when it is denied
+  async computePolicyFilter (operation: PolicyOperation, method: string): Promise<Record<string, unknown> | false> {
+    const policy = this[kPolicies][operation]
+    if (isUndefined(policy)) return false
+    const result = await policy(this[kActor], { operation, method })
+    if (result === false) throw new ForbiddenError(operation)
+    if (result === true || isUndefined(result)) return false
+    return result
+  }
+
+  mergePolicyFilter (filter: Filter<TSchema>, policy: Record<string, unknown> | false): Filter<TSchema> {
+    if (policy === false) return filter
+    return mergeQueryFilter(filter, policy as Filter<TSchema>)
+  }
+
+  // the first stage is always the $match of pre-query
+  mergePolicyPipeline (pipeline: any[], policy: Record<string, unknown> | false): void {
+    if (policy === false) return
+    pipeline[0].$match = mergeQueryFilter(pipeline[0].$match, policy)
+  }
+
+  checkInsertPolicy (docs: unknown[], policy: Record<string, unknown> | false): void {
+    if (policy === false) return
+    if (!docs.every((doc) => matchPolicyFilter(doc, policy))) throw new ForbiddenError('insert')
+  }
+
+  /**
+   * Relation
+   */
+  resolveRelation (name: string): Controller<any> {
+    const relation = this[kRelations][name]
+    if (isUndefined(relation)) throw new Error('relation "' + name + '" is not declared')
+    const controller = relation.controller instanceof Controller ? relation.controller : relation.controller()
+    // related documents are scoped by the same tenant and read by the same actor
+    const tenantId = this[kTenantId]
+    const scoped = isString(tenantId) && isString(controller.tenantKey) ? controller.forTenant(tenantId) : controller
+    return isUndefined(this[kActor]) ? scoped : scoped.forActor(this[kActor])
+  }
+
+  isRelationKey (key: string): boolean {
+    return Object.keys(this[kRelations]).some((name) => key === name || key.startsWith(`${name}.`))
+  }
+
+  // lookup is placed after pagination, so only the returned documents are populated
+  // it must be placed before when the populated fields are used by sort or post query
+  isPopulateDeferred (options: SearchOptions, keys: string[] = []): boolean {
+    const { filter }: any = options
+    if (isString(filter)) keys = keys.concat(parseFilter(filter).flatMap(retrieveFilterKeys))
+    if (isString(options.sort)) keys = keys.concat(Object.keys(parseSort(options.sort)))
+    return !keys.some((key) => this.isRelationKey(key))
+  }
+
+  // read policies of the related controllers are merged by mergePopulatePolicy
+  computePopulate (populate?: Populate | Populate[]): AggregateBuilder | false {
+    const paths = normalizePopulate(populate)
+    if (paths.length === 0) return false
+    this.logger.trace({ func: 'computePopulate', meta: { populate } }, 'started')
+    const builder = new AggregateBuilder()
+    for (const { path, fields, populate } of paths) {
+      const relation = this[kRelations][path]
+      const controller = this.resolveRelation(path)
+      // local field can be single value or array of values
+      const values = { $ifNull: ['$$value', []] }
+      const arr: any[] = [{ $expr: { $in: [`$${relation.foreignField ?? controller.idKey}`, { $cond: [{ $isArray: values }, values, [values]] }] } }]
+      const deleted = controller.computeDeletedQuery()
+      if (deleted !== false) arr.push(deleted)
+      const tenant = controller.computeTenantQuery()
+      if (tenant !== false) arr.push(tenant)
+      const pipeline = new AggregateBuilder().match({ $and: arr })
+      const n = controller.computePopulate(populate)
+      if (n !== false) pipeline.concat(n)
+      const f = controller.computeProjection(fields)
+      if (f !== false) pipeline.concat(f)
+      builder.lookup({ from: controller.collectionName, let: { value: `$${relation.localField}` }, pipeline: pipeline.toArray(), as: path })
+      if (relation.single === true) builder.unwind({ path: `$${path}`, preserveNullAndEmptyArrays: true })
+    }
+    this.logger.trace({ func: 'computePopulate', meta: { populate } }, 'ended')
+    return builder
+  }
+
+  // read policy of the related controller is merged into the $match of lookup
+  async mergePopulatePolicy (pipeline: any[], populate: Populate | Populate[] | undefined, method: string): Promise<void> {
+    for (const { path, populate: nested } of normalizePopulate(populate)) {
+      const lookup = findLookupStage(pipeline, path)
+      if (isUndefined(lookup)) continue
+      const controller = this.resolveRelation(path)
+      const policy = await controller.computePolicyFilter('read', method)
+      controller.mergePolicyPipeline(lookup.pipeline, policy)
+      await controller.mergePopulatePolicy(lookup.pipeline, nested, method)
+    }
+  }
+
+  // find options are applied before lookup, so only the returned documents are populated
+  // sort is only supported in the object form
+  computeFindPipeline (filter: Filter<TSchema>, options: FindOptions<TSchema> & PopulateOptions): AggregateBuilder {
+    const builder = new AggregateBuilder()
+    builder.match(filter)
+    if (isObject(options.sort) && !isArray(options.sort)) builder.sort(options.sort as Record<string, 1 | -1>)
+    if (isNumber(options.skip) && options.skip > 0) builder.skip(options.skip)
+    if (isNumber(options.limit) && options.limit > 0) builder.limit(options.limit)
+    const n = this.computePopulate(options.populate)
+    if (n !== false) builder.concat(n)
+    if (isObject(options.projection)) builder.project(options.projection)
+    return builder
+  }
+
+  /**
+   * Cache
+   */
+  registerCacheInvalidation (): void {
+    // tenant is read from the document, since the event may be emitted by a tenant view
+    const invalidate = async (result: unknown): Promise<void> => {
+      const cache = this[kCache]
+      if (cache === null) return
+      const docs: any[] = isArray(result) ? result : [result]
+      for (const doc of docs.filter(isExist)) {
+        await cache.delete(computeCacheKey('id', isString(this.tenantKey) ? doc[this.tenantKey] : null, doc[this.idKey]))
+      }
+    }
+    const increment = (): void => { this[kCacheGeneration]++ }
+    this.on('post-update-one', invalidate)
+    this.on('post-update-many', invalidate)
+    this.on('post-update-by-id', invalidate)
+    this.on('post-delete-one', invalidate)
+    this.on('post-delete-many', invalidate)
+    this.on('post-delete-by-id', invalidate)
+    this.on('post-restore-many', invalidate)
+    this.on('post-restore-by-id', invalidate)
+    this.on('post-purge', invalidate)
+    this.on('post-insert', increment)
+    this.on('post-update', increment)
+    this.on('post-delete', increment)
+    this.on('post-restore', increment)
+    // purge has no generic post event
+    this.on('post-purge', increment)
+    this.on('post-reset', async () => await this.invalidateCache())
+    // affected ids of bulk write are unknown
+    this.on('post-bulk', async () => await this.invalidateCache())
+  }
+
+  // clear all entries when ids is not provided
+  async invalidateCache (ids?: string[]): Promise<void> {
+    const cache = this[kCache]
+    if (cache === null) return
+    this[kCacheGeneration]++
+    if (isUndefined(ids)) {
+      await cache.clear()
+    } else {
+      const tenantId = this.computeTenantId() ?? null
+      for (const id of ids) await cache.delete(computeCacheKey('id', tenantId, id))
+    }
+  }
+
+  cacheStats (): CacheStats {
+    return { ...this[kCacheStats] }
+  }
+
+  // null result is not cached, so document inserted later can be found
+  async readThroughCache<T> (key: string | false, fn: () => Promise<T>): Promise<T> {
+    const cache = this[kCache]
+    if (cache === null || key === false) return await fn()
+    const cached = await cache.get(key)
+    if (!isUndefined(cached)) {
+      this[kCacheStats].hits++
+      return cached as T
+    }
+    this[kCacheStats].misses++
+    const result = await fn()
+    if (!isNull(result) && !isUndefined(result)) await cache.set(key, result, this[kCacheOptions].ttl)
+    return result
+  }
+
+  /**
+   * Change Stream
+   */
+  // re-emit the changes made by any client as change:* events
+  // persist change._id and pass it as resumeAfter to continue after restart
+  // read policy is not applied, since the stream is opened synchronously
+  // restrict the events of actor by pipeline, e.g. [{ $match: { 'fullDocument.authorId': actor.id } }]
+  watch (options?: WatchOptions): ChangeStream<TSchema, ChangeStreamDocument<TSchema>> {
+    this.logger.debug({ func: 'watch', meta: options }, 'started')
+    const { pipeline, ...o } = options ?? {}
+    const stages: Document[] = [{ $match: { operationType: { $in: ['insert', 'update', 'delete', 'replace'] } } }]
+    const tenantId = this.computeTenantId()
+    if (isString(this.tenantKey) && isString(tenantId)) {
+      // update carries the document only with updateLookup
+      o.fullDocument ??= 'updateLookup'
+      // delete is matched by documentKey, which contains the tenant only when it is part of the shard key
+      // otherwise it is dropped instead of leaking to other tenants
+      stages.push({ $match: { $or: [{ [`fullDocument.${this.tenantKey}`]: tenantId }, { operationType: 'delete', [`documentKey.${this.tenantKey}`]: tenantId }] } })
+    }
+    const stream = this.collection.watch<TSchema>([...stages, ...(pipeline ?? [])], o)
+    stream.on('change', (change) => {
+      this.emit(`change:${change.operationType}`, change).catch((err) => {
+        this.logger.error({ func: 'watch', meta: { err } }, 'failed to emit change')
+      })
+    })
+    // prevent unhandled error event, caller can listen on the returned stream
+    stream.on('error', (err) => {
+      this.logger.error({ func: 'watch', meta: { err } }, 'change stream error')
+    })
+    this.logger.debug({ func: 'watch', meta: options }, 'ended')
+    return stream
+  }
+
+  /**
+   * Transaction
+   */
+  // session is propagated to every controller method called inside the callback
+  static async withTransaction<T = void> (client: MongoClient, fn: (session: ClientSession) => Promise<T>, options?: TransactionOptions): Promise<T | undefined> {
+    const session = client.startSession()
+    const context: TransactionContext = { session, events: [] }
+    let result: T | undefined
+    try {
+      await session.withTransaction(async function () {
+        // callback can be retried on transient error
+        context.events = []
+        result = await transactionStorage.run(context, async function () {
+          return await fn(session)
+        })
+      }, options)
+      // deferred post events are dropped when the transaction is aborted
+      if (session.transaction.isCommitted) {
+        for (const emit of context.events) await emit()
+      }
+      return result
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  async emit (eventName: string | symbol, ...args: any[]): Promise<boolean> {
+    const context = transactionStorage.getStore()
+    if (context !== undefined && typeof eventName === 'string' && eventName.startsWith('post-')) {
+      context.events.push(async () => await super.emit(eventName, ...args))
+      return this.listenerCount(eventName) > 0
+    } else {
+      return await super.emit(eventName, ...args)
+    }
+  }
+
   /**
    * Index
    */
-  [kCreateIndex] (): void {
+  async [kCreateIndex] (): Promise<void> {
     this.logger.debug({ func: 'Symbol("createIndex")', meta: { indexes: this[kIndexes] } }, 'started')
-    // we do not wait for index creation
+    await this.syncIndexes()
+    await this.createIndex()
+    this.logger.debug({ func: 'Symbol("createIndex")', meta: { indexes: this[kIndexes] } }, 'ended')
+  }
+
+  // diff the declared indexes against database
+  async syncIndexes (options?: IndexSyncOptions): Promise<IndexSyncReport> {
+    this.logger.debug({ func: 'syncIndexes', meta: { options } }, 'started')
+    options ??= {}
+    await this.emit('pre-sync-indexes', options)
+    const report: IndexSyncReport = { created: [], stale: [], dropped: [], changed: [], rebuilt: [], unchanged: [] }
+    let existing: Document[] = []
+    try {
+      existing = await this.collection.listIndexes().toArray()
+    } catch (err: any) {
+      // we only ignore the error when it throw by non-existance collection
+      if (err.codeName !== 'NamespaceNotFound') throw err
+    }
+    const matched = new Set<string>(['_id_'])
     for (const index of this[kIndexes]) {
-      this.collection.createIndex(index.indexSpec, index.options ?? {}, noop)
-      this.logger.trace({ func: 'Symbol("createIndex")', meta: { index } }, 'index %j is created', index.indexSpec)
+      const key = normalizeIndexKey(index.indexSpec)
+      const indexOptions = index.options ?? {}
+      const name = indexOptions.name ?? computeIndexName(key)
+      // text index is stored with internal key, so we match name first
+      const found = existing.find((o) => o.name === name) ?? existing.find((o) => isSameIndexKey(o.key, key))
+      if (found === undefined) {
+        await this.collection.createIndex(index.indexSpec, indexOptions)
+        report.created.push(name)
+        this.logger.trace({ func: 'syncIndexes', meta: { index } }, 'index %j is created', index.indexSpec)
+        continue
+      }
+      matched.add(found.name)
+      const changes = diffIndexOptions(found.name, indexOptions, found)
+      if (changes.length === 0) {
+        report.unchanged.push(found.name)
+        continue
+      }
+      report.changed.push(...changes)
+      if (options.rebuildChanged === true) {
+        await this.collection.dropIndex(found.name)
+        await this.collection.createIndex(index.indexSpec, indexOptions)
+        report.rebuilt.push(found.name)
+        this.logger.trace({ func: 'syncIndexes', meta: { index, changes } }, 'index %j is rebuilt', index.indexSpec)
+      } else {
+        this.logger.warn({ func: 'syncIndexes', meta: { index, changes } }, 'index %s is changed', found.name)
+      }
     }
-    this.createIndex().finally(noop)
-    this.logger.debug({ func: 'Symbol("createIndex")', meta: { indexes: this[kIndexes] } }, 'ended')
+    for (const index of existing) {
+      if (matched.has(index.name)) continue
+      report.stale.push(index.name)
+      if (options.dropStale === true) {
+        await this.collection.dropIndex(index.name)
+        report.dropped.push(index.name)
+        this.logger.trace({ func: 'syncIndexes', meta: { index } }, 'index %s is dropped', index.name)
+      } else {
+        this.logger.warn({ func: 'syncIndexes', meta: { index } }, 'index %s is not declared', index.name)
+      }
+    }
+    await this.emit('post-sync-indexes', report, options)
+    this.logger.debug({ func: 'syncIndexes', meta: { options } }, 'ended')
+    return report
   }
 
   async createIndex (): Promise<void> {
 
   }
 
-  async count (options?: Pick<SearchOptions, 'search' | 'filter'>, o?: AggregateOptions): Promise<number> {
+  /**
+   * Schema
+   */
+  get schema (): JSONSchema | undefined {
+    return this[kSchema]
+  }
+
+  // throw when docs do not match the schema
+  validateSchema (docs: unknown, partial = false): void {
+    const schema = this[kSchema]
+    if (schema === undefined) return
+    const errors = validate(schema, docs, { partial })
+    if (errors.length > 0) throw new ValidationError(errors)
+  }
+
+  // db provided in options is used when not provided
+  async installSchemaValidator (db?: Db): Promise<void> {
+    const schema = this[kSchema]
+    if (schema === undefined) return
+    db ??= this[kDb]
+    if (isEmpty(db)) throw new Error('db expected to be an object, but recieved "' + typeof db + '"')
+    this.logger.debug({ func: 'installSchemaValidator', meta: { schema } }, 'started')
+    try {
+      await db.command({ collMod: this.collectionName, validator: { $jsonSchema: schema } })
+    } catch (err: any) {
+      // collMod can only be applied on existing collection
+      if (err.codeName === 'NamespaceNotFound') {
+        await db.createCollection(this.collectionName, { validator: { $jsonSchema: schema } })
+      } else {
+        throw err
+      }
+    }
+    this.logger.debug({ func: 'installSchemaValidator', meta: { schema } }, 'ended')
+  }
+
+  async count (options?: Pick<SearchOptions, 'search' | 'filter' | 'includeDeleted' | 'onlyDeleted' | 'populate'>, o?: AggregateOptions): Promise<number> {
     options ??= {}
-    const { search, filter } = options
+    o = computeTransactionOption(o)
+    const { search, filter, includeDeleted, onlyDeleted, populate } = options
     this.logger.debug({ func: 'count', meta: { search, filter } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'count')
     await this.emit('pre-count', options)
-    const found = await this.search({ search, filter }, o)
-    const result = found.length
+    const pipeline = this.computePipeline({ search, filter, includeDeleted, onlyDeleted, populate }).count('total').toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, populate, 'count')
+    const found = await this.collection.aggregate<{ total: number }>(pipeline, o).toArray()
+    const result = found[0]?.total ?? 0
     await this.emit('post-count', result, options)
     this.logger.debug({ func: 'count', meta: { search, filter } }, 'ended')
     return result
@@ -115,25 +825,150 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
 
   async search<U = TSchema> (options?: SearchOptions, o?: AggregateOptions): Promise<U[]> {
     this.logger.debug({ func: 'search', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'search')
     options ??= {}
+    o = computeTransactionOption(o)
     await this.emit('pre-search', options)
     const pipeline = this.computePipeline(options).toArray()
-    const result = await this.collection.aggregate<U>(pipeline, o).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'search')
+    // read inside transaction must not be cached
+    const key = this[kCacheOptions].search === true && isUndefined(o.session) && computeCacheKey('search', this[kCacheGeneration], pipeline)
+    const result = await this.readThroughCache(key, async () => await this.collection.aggregate<U>(pipeline, o).toArray())
     await this.emit('post-search', result, options)
     this.logger.debug({ func: 'search', meta: options }, 'ended')
     return result
   }
 
-  async insertOne (docs: TSchema, options?: InsertOneOptions): Promise<TSchema | null> {
-    this.logger.debug({ func: 'insertOne', meta: { docs, options } }, 'started')
+  // cursor is closed when the iteration ends, including early break
+  async * searchStream<U = TSchema> (options?: SearchOptions, o?: AggregateOptions): AsyncGenerator<U, void, undefined> {
+    this.logger.debug({ func: 'searchStream', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'searchStream')
     options ??= {}
+    o = computeTransactionOption(o)
+    await this.emit('pre-search-stream', options)
+    const pipeline = this.computePipeline(options).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'searchStream')
+    const cursor = this.collection.aggregate<U>(pipeline, o)
+    let count = 0
+    try {
+      for await (const doc of cursor) {
+        count++
+        yield doc
+      }
+    } finally {
+      await cursor.close()
+      // finally is also reached when the caller breaks early
+      await this.emit('post-search-stream', count, options)
+    }
+    this.logger.debug({ func: 'searchStream', meta: options }, 'ended')
+  }
+
+  // data and total count are computed in single aggregation
+  async searchWithTotal<U = TSchema> (options?: SearchOptions, o?: AggregateOptions): Promise<PaginatedSearchResult<U>> {
+    this.logger.debug({ func: 'searchWithTotal', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'searchWithTotal')
+    options ??= {}
+    o = computeTransactionOption(o)
+    await this.emit('pre-search', options)
+    const pipeline = this.computeTotalPipeline(options).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'searchWithTotal')
+    const [found] = await this.collection.aggregate<{ data: U[], total: Array<{ total: number }> }>(pipeline, o).toArray()
+    const data = found?.data ?? []
+    const total = found?.total[0]?.total ?? 0
+    const page = options.page ?? 1
+    const pageSize = options.pageSize ?? total
+    const result: PaginatedSearchResult<U> = {
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: pageSize > 0 ? Math.ceil(total / pageSize) : 0
+    }
+    await this.emit('post-search', data, options)
+    this.logger.debug({ func: 'searchWithTotal', meta: options }, 'ended')
+    return result
+  }
+
+  // data and count of each facet are computed in single aggregation
+  async searchWithFacets<U = TSchema> (options?: SearchOptions, o?: AggregateOptions): Promise<FacetSearchResult<U>> {
+    this.logger.debug({ func: 'searchWithFacets', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'searchWithFacets')
+    options ??= {}
+    o = computeTransactionOption(o)
+    await this.emit('pre-search', options)
+    const facets = this.computeFacets(options.facets)
+    const pipeline = this.computeFacetPipeline(options).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'searchWithFacets')
+    const [found] = await this.collection.aggregate<Record<string, any[]>>(pipeline, o).toArray()
+    const data: U[] = found?.data ?? []
+    const result: FacetSearchResult<U> = { data, facets: {} }
+    facets.forEach(function (facet, index) {
+      result.facets[facet.field] = found?.[`facet_${index}`] ?? []
+    })
+    await this.emit('post-search', data, options)
+    this.logger.debug({ func: 'searchWithFacets', meta: options }, 'ended')
+    return result
+  }
+
+  // keyset pagination, it is stable when data changes between requests
+  async searchWithCursor<U = TSchema> (options?: SearchOptions, o?: AggregateOptions): Promise<CursorSearchResult<U>> {
+    this.logger.debug({ func: 'searchWithCursor', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'searchWithCursor')
+    options ??= {}
+    o = computeTransactionOption(o)
+    await this.emit('pre-search', options)
+    const pageSize = options.pageSize ?? 10
+    const sort = this.computeCursorSort(options.sort)
+    const cursor: CursorData = isExist(options.cursor) ? decodeCursor(options.cursor) : { direction: 'next', sort, values: [] }
+    if (JSON.stringify(cursor.sort) !== JSON.stringify(sort)) throw new Error('cursor do not match sort "' + String(options.sort) + '"')
+    const pipeline = this.computeCursorPipeline(options, cursor, pageSize).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'searchWithCursor')
+    const found = await this.collection.aggregate<U>(pipeline, o).toArray()
+    const hasMore = found.length > pageSize
+    const data = found.slice(0, pageSize)
+    // previous page is fetched in reverse order
+    if (cursor.direction === 'prev') data.reverse()
+    const keys = Object.keys(sort)
+    const encode = (direction: 'next' | 'prev', item?: U): string | null => {
+      if (item === undefined) return null
+      return encodeCursor({ direction, sort, values: keys.map((key) => retrieveValueByPath(item, key)) })
+    }
+    const hasNext = cursor.direction === 'next' ? hasMore : true
+    const hasPrev = cursor.direction === 'prev' ? hasMore : cursor.values.length > 0
+    const result: CursorSearchResult<U> = {
+      data,
+      nextCursor: hasNext ? encode('next', data[data.length - 1]) : null,
+      prevCursor: hasPrev ? encode('prev', data[0]) : null
+    }
+    await this.emit('post-search', data, options)
+    this.logger.debug({ func: 'searchWithCursor', meta: options }, 'ended')
+    return result
+  }
+
+  async insertOne (docs: TSchema, options?: InsertOneOptions & PreserveOptions): Promise<TSchema | null> {
+    this.logger.debug({ func: 'insertOne', meta: { docs, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('insert', 'insertOne')
+    options = computeTransactionOption(options)
     const sharedOption = computeSharedOption(options)
     // single end-point for insert validation
     await this.emit('pre-insert', docs)
-    const doc = appendBasicSchema(docs, this.appendBasicSchema)
+    const doc = this.appendTenant(appendBasicSchema(docs, this.appendBasicSchema, this.computeAppendOption(options)))
+    this.validateSchema(doc)
+    this.checkInsertPolicy([doc], policy)
     await this.emit('pre-insert-one', doc, options)
     await this.collection.insertOne(doc as OptionalUnlessRequiredId<TSchema>, options)
-    const result = await this.collection.findOne<TSchema>({ id: doc.id }, sharedOption)
+    const result = await this.collection.findOne<TSchema>(this.computeTenantFilter({ [this.idKey]: doc[this.idKey] } as unknown as Filter<TSchema>), sharedOption)
     await this.emit('post-insert-one', result, doc, options)
     // single end-point for insert, we do not allow to update result on this end-point
     await this.emit('post-insert')
@@ -141,16 +976,23 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return result
   }
 
-  async insertMany (docs: TSchema[], options?: BulkWriteOptions): Promise<TSchema[]> {
+  async insertMany (docs: TSchema[], options?: BulkWriteOptions & PreserveOptions): Promise<TSchema[]> {
     this.logger.debug({ func: 'insertMany', meta: { docs, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('insert', 'insertMany')
+    options = computeTransactionOption(options)
     const sharedOption = computeSharedOption(options)
     // single end-point for insert validation
     await this.emit('pre-insert', docs)
-    const doc = appendBasicSchema(docs, this.appendBasicSchema)
+    const doc = appendBasicSchema(docs, this.appendBasicSchema, this.computeAppendOption(options)).map((d) => this.appendTenant(d))
+    for (const d of doc) this.validateSchema(d)
+    this.checkInsertPolicy(doc, policy)
     await this.emit('pre-insert-many', doc, options)
     await this.collection.insertMany(doc as Array<OptionalUnlessRequiredId<TSchema>>, options)
-    const result = await this.collection.find<TSchema>({ id: { $in: doc.map((d) => d.id) } }, { ...sharedOption, sort: { createdAt: 1 } }).toArray()
+    const ids: unknown[] = doc.map((d) => d[this.idKey])
+    const found = await this.collection.find<TSchema>(this.computeTenantFilter({ [this.idKey]: { $in: ids } } as unknown as Filter<TSchema>), sharedOption).toArray()
+    // keep the same order as input
+    const result = found.sort((a, b) => ids.indexOf(a[this.idKey]) - ids.indexOf(b[this.idKey]))
     await this.emit('post-insert-many', result, doc, options)
     // single end-point for insert, we do not allow to update result on this end-point
     await this.emit('post-insert')
@@ -158,48 +1000,206 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return result
   }
 
-  async find (filter?: Filter<TSchema>, options?: FindOptions<TSchema>): Promise<TSchema[]> {
+  // the operations are sent in single round trip, ordered mode stop at the first failure
+  async bulkWrite (operations: Array<BulkOperation<TSchema>>, options?: BulkWriteOptions): Promise<BulkResult> {
+    this.logger.debug({ func: 'bulkWrite', meta: { operations, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    options = computeTransactionOption(options)
+    const ordered = options.ordered ?? true
+    // policy is evaluated once for each type of operation
+    const policies: Partial<Record<PolicyOperation, Record<string, unknown> | false>> = {}
+    for (const operation of operations) {
+      const type = kBulkPolicyOperations[Object.keys(operation)[0] as BulkOperationType]
+      if (!(type in policies)) policies[type] = await this.computePolicyFilter(type, 'bulkWrite')
+    }
+    await this.emit('pre-bulk', operations, options)
+    const results: BulkOperationResult[] = operations.map((operation, index) => ({ index, operation: Object.keys(operation)[0] as BulkOperationType, ok: false }))
+    const writes: Array<AnyBulkWriteOperation<TSchema>> = []
+    // index of operation for each write
+    const indexes: number[] = []
+    for (const [index, operation] of operations.entries()) {
+      try {
+        writes.push(await this.computeBulkOperation(operation, results[index], policies))
+        indexes.push(index)
+      } catch (err) {
+        results[index].error = err as Error
+        if (ordered) break
+      }
+    }
+
+    let found: BulkWriteResult | undefined
+    if (writes.length > 0) {
+      try {
+        found = await this.collection.bulkWrite(writes, { ...options, ordered })
+        for (const index of indexes) results[index].ok = true
+      } catch (err) {
+        if (!(err instanceof MongoBulkWriteError)) throw err
+        found = err.result
+        const errors = ([] as any[]).concat(err.writeErrors)
+        // ordered mode do not execute the writes after the first error
+        const executed: number = ordered ? errors[0]?.index ?? indexes.length : indexes.length
+        for (let i = 0; i < executed; i++) results[indexes[i]].ok = true
+        for (const error of errors) {
+          const result = results[indexes[error.index]]
+          result.ok = false
+          result.error = new Error(error.errmsg)
+        }
+      }
+    }
+
+    const result: BulkResult = {
+      ok: results.every((result) => result.ok),
+      insertedCount: found?.insertedCount ?? 0,
+      matchedCount: found?.matchedCount ?? 0,
+      modifiedCount: found?.modifiedCount ?? 0,
+      deletedCount: found?.deletedCount ?? 0,
+      results
+    }
+    await this.emit('post-bulk', result, operations, options)
+    // single end-point for each type of write
+    const succeed = results.filter((result) => result.ok).map((result) => result.operation)
+    if (succeed.includes('insertOne')) await this.emit('post-insert')
+    if (succeed.includes('updateOne') || succeed.includes('updateMany')) await this.emit('post-update')
+    if (succeed.includes('deleteOne') || succeed.includes('deleteMany')) await this.emit('post-delete')
+    this.logger.debug({ func: 'bulkWrite', meta: { operations, options } }, 'ended')
+    return result
+  }
+
+  // validate and transform the operation in the same way as the single operation method
+  async computeBulkOperation (operation: BulkOperation<TSchema>, result: BulkOperationResult, policies: Partial<Record<PolicyOperation, Record<string, unknown> | false>> = {}): Promise<AnyBulkWriteOperation<TSchema>> {
+    if ('insertOne' in operation) {
+      await this.emit('pre-insert', operation.insertOne.document)
+      const doc = this.appendTenant(appendBasicSchema(operation.insertOne.document, this.appendBasicSchema, this.computeAppendOption()))
+      this.validateSchema(doc)
+      this.checkInsertPolicy([doc], policies.insert ?? false)
+      result.id = doc[this.idKey]
+      return { insertOne: { document: doc as OptionalId<TSchema> } }
+    }
+    if ('updateOne' in operation || 'updateMany' in operation) {
+      const o = 'updateOne' in operation ? operation.updateOne : operation.updateMany
+      const filter = this.mergePolicyFilter(o.filter, policies.update ?? false)
+      await this.emit('pre-update', filter, o.update)
+      const doc = appendUpdateSchema(o.update, this.appendBasicSchema, this.computeAppendOption())
+      this.validateSchema(retrieveUpdateQueryData(doc), true)
+      const write = { filter: this.computeScopedFilter(filter), update: normalizeQueryDate(doc) }
+      return 'updateOne' in operation ? { updateOne: write } : { updateMany: write }
+    }
+    const o = 'deleteOne' in operation ? operation.deleteOne : operation.deleteMany
+    const filter = this.mergePolicyFilter(o.filter, policies.delete ?? false)
+    await this.emit('pre-delete', filter)
+    if (this.softDelete) {
+      const write = { filter: this.computeScopedFilter(filter), update: { $set: { deletedAt: new Date() } } as unknown as UpdateFilter<TSchema> }
+      return 'deleteOne' in operation ? { updateOne: write } : { updateMany: write }
+    }
+    const write = { filter: this.computeTenantFilter(filter) }
+    return 'deleteOne' in operation ? { deleteOne: write } : { deleteMany: write }
+  }
+
+  async find (filter?: Filter<TSchema>, options?: FindOptions<TSchema> & SoftDeleteOptions & FieldsOptions & PopulateOptions): Promise<TSchema[]> {
     this.logger.debug({ func: 'find', meta: { filter, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    options = computeTransactionOption(options)
     filter ??= {}
+    const policy = await this.computePolicyFilter('read', 'find')
+    filter = this.mergePolicyFilter(filter, policy)
+    this.computeFindProjection(options)
     await this.emit('pre-find', filter, options)
-    const result = await this.collection.find(filter, options).toArray()
+    const query = this.computeScopedFilter(filter, options)
+    let result: unknown[]
+    if (isUndefined(options.populate)) {
+      result = await this.collection.find(query, options).toArray()
+    } else {
+      const pipeline = this.computeFindPipeline(query, options).toArray()
+      await this.mergePopulatePolicy(pipeline, options.populate, 'find')
+      result = await this.collection.aggregate(pipeline, computeSharedOption(options)).toArray()
+    }
     await this.emit('post-find', result, filter, options)
     this.logger.debug({ func: 'find', meta: { filter, options } }, 'ended')
     return result as TSchema[]
   }
 
-  async findOne (filter?: Filter<TSchema>, options?: FindOptions<TSchema>): Promise<TSchema | null> {
+  // cursor is closed when the iteration ends, including early break
+  async * findStream (filter?: Filter<TSchema>, options?: FindOptions<TSchema> & SoftDeleteOptions & FieldsOptions): AsyncGenerator<TSchema, void, undefined> {
+    this.logger.debug({ func: 'findStream', meta: { filter, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    options = computeTransactionOption(options)
+    filter ??= {}
+    const policy = await this.computePolicyFilter('read', 'findStream')
+    filter = this.mergePolicyFilter(filter, policy)
+    this.computeFindProjection(options)
+    await this.emit('pre-find-stream', filter, options)
+    const cursor = this.collection.find(this.computeScopedFilter(filter, options), options)
+    let count = 0
+    try {
+      for await (const doc of cursor) {
+        count++
+        yield doc as TSchema
+      }
+    } finally {
+      await cursor.close()
+      // finally is also reached when the caller breaks early
+      await this.emit('post-find-stream', count, filter, options)
+    }
+    this.logger.debug({ func: 'findStream', meta: { filter, options } }, 'ended')
+  }
+
+  async findOne (filter?: Filter<TSchema>, options?: FindOptions<TSchema> & SoftDeleteOptions & FieldsOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'findOne', meta: { filter, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    options = computeTransactionOption(options)
     filter ??= {}
+    const policy = await this.computePolicyFilter('read', 'findOne')
+    filter = this.mergePolicyFilter(filter, policy)
+    this.computeFindProjection(options)
     await this.emit('pre-find-one', filter, options)
-    const result = await this.collection.findOne(filter, options)
+    const query = this.computeScopedFilter(filter, options)
+    const key = this[kCacheOptions].findOne === true && isUndefined(options.session) && computeCacheKey('find-one', this[kCacheGeneration], query, options)
+    const result = await this.readThroughCache(key, async () => await this.collection.findOne(query, options))
     await this.emit('post-find-one', result, filter, options)
     this.logger.debug({ func: 'findOne', meta: { filter, options } }, 'ended')
     return result as TSchema
   }
 
-  async findById (id: string, options?: FindOptions<TSchema>): Promise<TSchema | null> {
+  async findById (id: string, options?: FindOptions<TSchema> & SoftDeleteOptions & FieldsOptions & PopulateOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'findById', meta: { id, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    this.validateId(id)
+    const policy = await this.computePolicyFilter('read', 'findById')
+    options = computeTransactionOption(options)
+    this.computeFindProjection(options)
     await this.emit('pre-find-by-id', id, options)
-    const filter: Filter<TSchema> = { id } as unknown as Filter<TSchema>
-    const result = await this.collection.findOne(filter, options)
+    const filter = this.mergePolicyFilter({ [this.idKey]: id } as unknown as Filter<TSchema>, policy)
+    // only the plain lookup is cached, so it can be invalidated by id
+    // policy may be different between actors
+    const key = policy === false && isUndefined(options.session) && isUndefined(options.projection) && isUndefined(options.populate) && options.includeDeleted !== true && options.onlyDeleted !== true && computeCacheKey('id', this.computeTenantId() ?? null, id)
+    const query = this.computeScopedFilter(filter, options)
+    const result = await this.readThroughCache(key, async () => {
+      if (isUndefined(options?.populate)) return await this.collection.findOne(query, options)
+      const pipeline = this.computeFindPipeline(query, { ...options, limit: 1 }).toArray()
+      await this.mergePopulatePolicy(pipeline, options?.populate, 'findById')
+      const [found] = await this.collection.aggregate(pipeline, computeSharedOption(options)).toArray()
+      return found ?? null
+    })
     await this.emit('post-find-by-id', result, id, options)
     this.logger.debug({ func: 'findById', meta: { id, options } }, 'ended')
     return result as TSchema
   }
 
-  async updateOne (filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions): Promise<TSchema | null> {
+  async updateOne (filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions & SoftDeleteOptions & VersionOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'updateOne', meta: { filter, docs, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('update', 'updateOne'))
+    options = computeTransactionOption(options)
     options.returnDocument ??= 'after'
     // single end-point for update validation
     await this.emit('pre-update', filter, docs)
-    const doc = appendUpdateSchema(docs, this.appendBasicSchema)
+    const doc = appendUpdateSchema(docs, this.appendBasicSchema, this.computeAppendOption())
+    this.validateSchema(retrieveUpdateQueryData(doc), true)
     await this.emit('pre-update-one', filter, doc, options)
-    const result = await this.collection.findOneAndUpdate(filter, normalizeQueryDate(doc), options)
+    await this.checkVersion(filter, options)
+    const result = await this.collection.findOneAndUpdate(this.computeVersionFilter(this.computeScopedFilter(filter, options), options), normalizeQueryDate(doc), options)
+    // document may be changed between version check and update
+    if (result.value === null) await this.checkVersion(filter, options)
     await this.emit('post-update-one', result.value, filter, doc, options)
     // single end-point for update, we do not allow to update result on this end-point
     await this.emit('post-update')
@@ -207,34 +1207,55 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return result.value as TSchema
   }
 
-  async updateMany (filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: UpdateOptions): Promise<TSchema[]> {
+  async updateMany (filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: UpdateOptions & SoftDeleteOptions & VersionOptions): Promise<TSchema[]> {
     this.logger.debug({ func: 'updateMany', meta: { filter, docs, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('update', 'updateMany'))
+    options = computeTransactionOption(options)
     const sharedOption = computeSharedOption(options)
     // single end-point for update validation
     await this.emit('pre-update', filter, docs)
-    const doc = appendUpdateSchema(docs, this.appendBasicSchema)
+    const doc = appendUpdateSchema(docs, this.appendBasicSchema, this.computeAppendOption())
+    this.validateSchema(retrieveUpdateQueryData(doc), true)
     await this.emit('pre-update-many', filter, doc, options)
-    const o = await this.collection.find(filter, sharedOption).toArray()
-    await this.collection.updateMany(filter, normalizeQueryDate(doc), options)
-    const result = await this.collection.find({ id: { $in: o.map((o) => o.id) } }, sharedOption).toArray()
+    await this.checkVersion(filter, options)
+    const o = await this.collection.find(this.computeScopedFilter(filter, options), sharedOption).toArray()
+    const { matchedCount } = await this.collection.updateMany(this.computeVersionFilter(this.computeScopedFilter(filter, options), options), normalizeQueryDate(doc), options)
+    let result = await this.collection.find(this.computeTenantFilter({ [this.idKey]: { $in: o.map((o) => o[this.idKey]) } } as unknown as Filter<TSchema>), sharedOption).toArray()
+    // document may be changed between version check and update
+    // the documents which are written still go through the post events before the conflict is thrown
+    const expectedVersion = options.expectedVersion
+    const conflict = isString(this.versionKey) && isNumber(expectedVersion) && matchedCount !== o.length
+    if (conflict) {
+      // updatedAt tells apart the documents written by others with the same version
+      const updatedAt = isString(this.updatedAtKey) ? (retrieveUpdateQueryData(doc) as any)[this.updatedAtKey] : undefined
+      result = result.filter((d) => d[this.versionKey as string] === expectedVersion + 1 && (!(updatedAt instanceof Date) || d[this.updatedAtKey as string]?.getTime() === updatedAt.getTime()))
+    }
     await this.emit('post-update-many', result, filter, doc, options)
     // single end-point for update, we do not allow to update result on this end-point
     await this.emit('post-update')
+    if (conflict) throw new ConflictError(expectedVersion)
     this.logger.debug({ func: 'updateMany', meta: { filter, docs, options } }, 'ended')
     return result as unknown as TSchema[]
   }
 
-  async updateById (id: string, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions): Promise<TSchema | null> {
+  async updateById (id: string, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions & SoftDeleteOptions & VersionOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'updateById', meta: { id, docs, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    this.validateId(id)
+    const policy = await this.computePolicyFilter('update', 'updateById')
+    options = computeTransactionOption(options)
     options.returnDocument ??= 'after'
     // single end-point for update validation
-    await this.emit('pre-update', { id }, docs)
-    const doc = appendUpdateSchema(docs, this.appendBasicSchema)
+    await this.emit('pre-update', { [this.idKey]: id }, docs)
+    const doc = appendUpdateSchema(docs, this.appendBasicSchema, this.computeAppendOption())
+    this.validateSchema(retrieveUpdateQueryData(doc), true)
     await this.emit('pre-update-by-id', id, doc, options)
-    const filter: Filter<TSchema> = { id } as unknown as Filter<TSchema>
-    const result = await this.collection.findOneAndUpdate(filter, normalizeQueryDate(doc), options)
+    const filter = this.mergePolicyFilter({ [this.idKey]: id } as unknown as Filter<TSchema>, policy)
+    await this.checkVersion(filter, options)
+    const result = await this.collection.findOneAndUpdate(this.computeVersionFilter(this.computeScopedFilter(filter, options), options), normalizeQueryDate(doc), options)
+    // document may be changed between version check and update
+    if (result.value === null) await this.checkVersion(filter, options)
     await this.emit('post-update-by-id', result.value, id, doc, options)
     // single end-point for update, we do not allow to update result on this end-point
     await this.emit('post-update')
@@ -242,13 +1263,188 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return result.value as TSchema
   }
 
+  // id and createdAt are only written when the document is created
+  // version starts from 0 for the created document, the same as insert
+  async upsertOne (filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions & PreserveOptions): Promise<UpsertResult<TSchema>> {
+    this.logger.debug({ func: 'upsertOne', meta: { filter, docs, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    // id and equality fields are read before the policy filter is merged
+    const original = filter
+    const id = (filter as any)[this.idKey]
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('update', 'upsertOne'))
+    options = computeTransactionOption(options)
+    options.returnDocument ??= 'after'
+    const sharedOption = computeSharedOption(options)
+    const query = this.computeScopedFilter(filter)
+    // pre events follow the existence before write, post events follow the actual result
+    const exist = await this.collection.findOne(query, sharedOption) !== null
+    // soft deleted document still holds the unique id
+    if (!exist && this.softDelete && isString(id) && await this.collection.findOne(this.computeSoftDeletedFilter({ [this.idKey]: id } as unknown as Filter<TSchema>), sharedOption) !== null) throw new SoftDeletedError(id)
+    // insert policy only applies when the document is created
+    const policy = exist ? false : await this.computePolicyFilter('insert', 'upsertOne')
+    if (exist) await this.emit('pre-update', filter, docs)
+    const doc = appendUpdateSchema(docs, this.appendBasicSchema, this.computeAppendOption(options))
+    const data = retrieveUpdateQueryData(doc)
+    const update: any = normalizeQueryDate(isUpdateQuery(doc) ? doc : { $set: doc })
+    update.$setOnInsert = { ...update.$setOnInsert, [this.idKey]: isString(id) ? id : this[kIdStrategy]?.generate(data, this.idKey) ?? randomUUID() }
+    if (isString(this.tenantKey)) update.$setOnInsert[this.tenantKey] = this.computeTenantId()
+    // version can not be written by both $inc and $setOnInsert
+    if (isString(this.versionKey) && !exist) {
+      Reflect.deleteProperty(update.$inc, this.versionKey)
+      if (Object.keys(update.$inc).length === 0) Reflect.deleteProperty(update, '$inc')
+      update.$setOnInsert[this.versionKey] = 0
+    }
+    if (isString(this.createdAtKey)) {
+      // createdAt is removed from the update, so the preserved one is read from the input
+      const createdAt = options.preserve === true ? (retrieveUpdateQueryData(docs) as any)[this.createdAtKey] : undefined
+      update.$setOnInsert[this.createdAtKey] = createdAt ?? (isString(this.updatedAtKey) ? update.$set[this.updatedAtKey] : new Date())
+    }
+    // the document which would be created, it is validated as insert
+    const inserted = exist ? data : { ...retrieveFilterEquality(original), ...update.$setOnInsert, ...data }
+    if (exist) {
+      this.validateSchema(data, true)
+      await this.emit('pre-update-one', filter, doc, options)
+    } else {
+      await this.emit('pre-insert', inserted)
+      this.validateSchema(inserted)
+      this.checkInsertPolicy([inserted], policy)
+      await this.emit('pre-insert-one', inserted, options)
+    }
+    let result = await this.collection.findOneAndUpdate(query, update, { ...options, upsert: true })
+    const created = result.lastErrorObject?.updatedExisting !== true
+    // document is created by others between the existence check and update
+    if (isString(this.versionKey) && !exist && !created) {
+      result = await this.collection.findOneAndUpdate(this.computeTenantFilter({ [this.idKey]: result.value?.[this.idKey] } as unknown as Filter<TSchema>), { $inc: { [this.versionKey]: 1 } } as unknown as UpdateFilter<TSchema>, options)
+    }
+    if (created) {
+      await this.emit('post-insert-one', result.value, inserted, options)
+      await this.emit('post-insert')
+    } else {
+      await this.emit('post-update-one', result.value, filter, doc, options)
+      await this.emit('post-update')
+    }
+    this.logger.debug({ func: 'upsertOne', meta: { filter, docs, options } }, 'ended')
+    return { created, document: result.value as TSchema | null }
+  }
+
+  async upsertById (id: string, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: FindOneAndUpdateOptions & PreserveOptions): Promise<UpsertResult<TSchema>> {
+    this.validateId(id)
+    return await this.upsertOne({ [this.idKey]: id } as unknown as Filter<TSchema>, docs, options)
+  }
+
+  // the stream is ended when all documents are written
+  async exportTo (stream: Writable, options: ExportOptions, o?: AggregateOptions): Promise<number> {
+    this.logger.debug({ func: 'exportTo', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const policy = await this.computePolicyFilter('read', 'exportTo')
+    const serializer = new ExportSerializer(options.format, options.columns)
+    const batchSize = options.batchSize ?? 1000
+    o = computeTransactionOption(o)
+    await this.emit('pre-export', options)
+    const pipeline = this.computePipeline(options).toArray()
+    this.mergePolicyPipeline(pipeline, policy)
+    await this.mergePopulatePolicy(pipeline, options.populate, 'exportTo')
+    const cursor = this.collection.aggregate<Document>(pipeline, o)
+    try {
+      for await (const doc of cursor) {
+        // _id is internal, document is identified by idKey
+        Reflect.deleteProperty(doc, '_id')
+        await writeChunk(stream, serializer.push(doc))
+        if (serializer.count % batchSize === 0) await this.emit('export-progress', serializer.count)
+      }
+    } finally {
+      await cursor.close()
+    }
+    await writeChunk(stream, serializer.end())
+    stream.end()
+    await finished(stream)
+    await this.emit('post-export', serializer.count, options)
+    this.logger.debug({ func: 'exportTo', meta: options }, 'ended')
+    return serializer.count
+  }
+
+  // failed record is reported in errors, the import is only rejected when the stream can not be parsed
+  async importFrom (stream: Readable, options: ImportOptions): Promise<ImportResult> {
+    this.logger.debug({ func: 'importFrom', meta: options }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    const batchSize = options.batchSize ?? 1000
+    const result: ImportResult = { processed: 0, insertedCount: 0, updatedCount: 0, errors: [] }
+    await this.emit('pre-import', options)
+    let batch: ImportRecord[] = []
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) return
+      if (options.mode === 'upsert') await this.importUpsert(batch, result)
+      else await this.importInsert(batch, result)
+      batch = []
+      await this.emit('import-progress', result)
+    }
+    for await (const record of readImportRecords(stream, options.format, options.columns)) {
+      result.processed++
+      if (record.error !== undefined) {
+        result.errors.push({ row: record.row, error: record.error })
+        continue
+      }
+      batch.push(record)
+      if (batch.length >= batchSize) await flush()
+    }
+    await flush()
+    await this.emit('post-import', result, options)
+    this.logger.debug({ func: 'importFrom', meta: options }, 'ended')
+    return result
+  }
+
+  async importInsert (batch: ImportRecord[], result: ImportResult): Promise<void> {
+    try {
+      // unordered, so every valid document is written
+      // exported id and timestamps are kept, so the references are not broken
+      const inserted = await this.insertMany(batch.map((record) => record.doc as TSchema), { ordered: false, preserve: true })
+      result.insertedCount += inserted.length
+    } catch (err) {
+      if (err instanceof MongoBulkWriteError) {
+        const errors = ([] as any[]).concat(err.writeErrors)
+        result.insertedCount += err.result.insertedCount
+        for (const error of errors) result.errors.push({ row: batch[error.index].row, error: new Error(error.errmsg) })
+        // insertMany is rejected before the post events
+        await this.emit('post-insert')
+        return
+      }
+      // rejected before writing, find out the failed records one by one
+      for (const record of batch) {
+        try {
+          await this.insertOne(record.doc as TSchema, { preserve: true })
+          result.insertedCount++
+        } catch (err: any) {
+          result.errors.push({ row: record.row, error: err })
+        }
+      }
+    }
+  }
+
+  async importUpsert (batch: ImportRecord[], result: ImportResult): Promise<void> {
+    for (const record of batch) {
+      try {
+        const id = record.doc?.[this.idKey]
+        if (!isString(id) || id === '') throw new ValidationError([{ path: this.idKey, message: 'is required' }])
+        const { created } = await this.upsertById(id, record.doc as Partial<TSchema>, { preserve: true })
+        if (created) result.insertedCount++
+        else result.updatedCount++
+      } catch (err: any) {
+        result.errors.push({ row: record.row, error: err })
+      }
+    }
+  }
+
   async deleteOne (filter: Filter<TSchema>, options?: FindOneAndDeleteOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'deleteOne', meta: { filter, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('delete', 'deleteOne'))
+    options = computeTransactionOption(options)
     // single end-point for delete validation
     await this.emit('pre-delete', filter)
     await this.emit('pre-delete-one', filter, options)
-    const result = await this.collection.findOneAndDelete(filter, options)
+    const result = this.softDelete
+      ? await this.collection.findOneAndUpdate(this.computeScopedFilter(filter), { $set: { deletedAt: new Date() } } as unknown as UpdateFilter<TSchema>, { ...options, returnDocument: 'after' })
+      : await this.collection.findOneAndDelete(this.computeTenantFilter(filter), options)
     await this.emit('post-delete-one', result.value, filter, options)
     // single end-point for delete, we do not allow to update result on this end-point
     await this.emit('post-delete')
@@ -258,14 +1454,22 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
 
   async deleteMany (filter?: Filter<TSchema>, options?: DeleteOptions): Promise<TSchema[]> {
     this.logger.debug({ func: 'deleteMany', meta: { filter, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    options = computeTransactionOption(options)
     filter ??= {}
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('delete', 'deleteMany'))
     const sharedOption = computeSharedOption(options)
     // single end-point for delete validation
     await this.emit('pre-delete', filter)
-    const result = await this.collection.find(filter, sharedOption).toArray()
+    let result = await this.collection.find(this.computeScopedFilter(filter), sharedOption).toArray()
     await this.emit('pre-delete-many', filter, options)
-    await this.collection.deleteMany(filter, options)
+    if (this.softDelete) {
+      const ids = this.computeTenantFilter({ [this.idKey]: { $in: result.map((o) => o[this.idKey]) } } as unknown as Filter<TSchema>)
+      await this.collection.updateMany(ids, { $set: { deletedAt: new Date() } } as unknown as UpdateFilter<TSchema>, options)
+      result = await this.collection.find(ids, sharedOption).toArray()
+    } else {
+      await this.collection.deleteMany(this.computeTenantFilter(filter), options)
+    }
     await this.emit('post-delete-many', result, filter, options)
     // single end-point for delete, we do not allow to update result on this end-point
     await this.emit('post-delete')
@@ -275,12 +1479,17 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
 
   async deleteById (id: string, options?: FindOneAndDeleteOptions): Promise<TSchema | null> {
     this.logger.debug({ func: 'deleteById', meta: { id, options } }, 'started')
-    options ??= {}
+    if (this[kWaitReady]) await this.ready()
+    this.validateId(id)
+    const policy = await this.computePolicyFilter('delete', 'deleteById')
+    options = computeTransactionOption(options)
     // single end-point for delete validation
-    await this.emit('pre-delete', { id })
-    const filter: Filter<TSchema> = { id } as unknown as Filter<TSchema>
+    await this.emit('pre-delete', { [this.idKey]: id })
+    const filter = this.mergePolicyFilter({ [this.idKey]: id } as unknown as Filter<TSchema>, policy)
     await this.emit('pre-delete-by-id', id, options)
-    const result = await this.collection.findOneAndDelete(filter, options)
+    const result = this.softDelete
+      ? await this.collection.findOneAndUpdate(this.computeScopedFilter(filter), { $set: { deletedAt: new Date() } } as unknown as UpdateFilter<TSchema>, { ...options, returnDocument: 'after' })
+      : await this.collection.findOneAndDelete(this.computeTenantFilter(filter), options)
     await this.emit('post-delete-by-id', result.value, id, options)
     // single end-point for delete, we do not allow to update result on this end-point
     await this.emit('post-delete')
@@ -288,6 +1497,98 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return result.value as TSchema
   }
 
+  async restoreMany (filter?: Filter<TSchema>, options?: UpdateOptions): Promise<TSchema[]> {
+    this.logger.debug({ func: 'restoreMany', meta: { filter, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    this.checkSoftDelete()
+    options = computeTransactionOption(options)
+    filter ??= {}
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('update', 'restoreMany'))
+    const sharedOption = computeSharedOption(options)
+    // single end-point for restore validation
+    await this.emit('pre-restore', filter)
+    await this.emit('pre-restore-many', filter, options)
+    const o = await this.collection.find(this.computeSoftDeletedFilter(filter), sharedOption).toArray()
+    const ids = this.computeTenantFilter({ [this.idKey]: { $in: o.map((o) => o[this.idKey]) } } as unknown as Filter<TSchema>)
+    await this.collection.updateMany(ids, { $unset: { deletedAt: '' } } as unknown as UpdateFilter<TSchema>, options)
+    const result = await this.collection.find(ids, sharedOption).toArray()
+    await this.emit('post-restore-many', result, filter, options)
+    // single end-point for restore, we do not allow to update result on this end-point
+    await this.emit('post-restore')
+    this.logger.debug({ func: 'restoreMany', meta: { filter, options } }, 'ended')
+    return result as TSchema[]
+  }
+
+  async restoreById (id: string, options?: FindOneAndUpdateOptions): Promise<TSchema | null> {
+    this.logger.debug({ func: 'restoreById', meta: { id, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    this.checkSoftDelete()
+    this.validateId(id)
+    const policy = await this.computePolicyFilter('update', 'restoreById')
+    options = computeTransactionOption(options)
+    options.returnDocument ??= 'after'
+    // single end-point for restore validation
+    await this.emit('pre-restore', { [this.idKey]: id })
+    await this.emit('pre-restore-by-id', id, options)
+    const filter = this.mergePolicyFilter({ [this.idKey]: id } as unknown as Filter<TSchema>, policy)
+    const result = await this.collection.findOneAndUpdate(this.computeSoftDeletedFilter(filter), { $unset: { deletedAt: '' } } as unknown as UpdateFilter<TSchema>, options)
+    await this.emit('post-restore-by-id', result.value, id, options)
+    // single end-point for restore, we do not allow to update result on this end-point
+    await this.emit('post-restore')
+    this.logger.debug({ func: 'restoreById', meta: { id, options } }, 'ended')
+    return result.value as TSchema
+  }
+
+  // permanently remove the soft-deleted documents
+  async purge (filter?: Filter<TSchema>, options?: DeleteOptions): Promise<TSchema[]> {
+    this.logger.debug({ func: 'purge', meta: { filter, options } }, 'started')
+    if (this[kWaitReady]) await this.ready()
+    this.checkSoftDelete()
+    options = computeTransactionOption(options)
+    filter ??= {}
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('delete', 'purge'))
+    const sharedOption = computeSharedOption(options)
+    await this.emit('pre-purge', filter, options)
+    const result = await this.collection.find(this.computeSoftDeletedFilter(filter), sharedOption).toArray()
+    await this.collection.deleteMany(this.computeTenantFilter({ [this.idKey]: { $in: result.map((o) => o[this.idKey]) } } as unknown as Filter<TSchema>), options)
+    await this.emit('post-purge', result, filter, options)
+    this.logger.debug({ func: 'purge', meta: { filter, options } }, 'ended')
+    return result as TSchema[]
+  }
+
+  // throw when any of the matched document do not have expected version
+  async checkVersion (filter: Filter<TSchema>, options?: SoftDeleteOptions & VersionOptions): Promise<void> {
+    if (!isString(this.versionKey) || !isNumber(options?.expectedVersion)) return
+    const key = this.versionKey
+    const expectedVersion = options?.expectedVersion as number
+    const sharedOption = computeSharedOption(options)
+    const conflict = await this.collection.findOne(mergeQueryFilter(this.computeScopedFilter(filter, options), { [key]: { $ne: expectedVersion } } as unknown as Filter<TSchema>), sharedOption)
+    if (conflict !== null) throw new ConflictError(expectedVersion, conflict[key])
+  }
+
+  appendTenant (doc: TSchema): TSchema {
+    if (!isString(this.tenantKey)) return doc
+    return { ...doc, [this.tenantKey]: this.computeTenantId() }
+  }
+
+  computeAppendOption (options?: PreserveOptions): AppendSchemaOptions {
+    return {
+      preserve: options?.preserve,
+      versionKey: this.versionKey,
+      generateId: this[kIdStrategy]?.generate,
+      idKey: this.idKey,
+      createdAtKey: this.createdAtKey,
+      updatedAtKey: this.updatedAtKey,
+      tenantKey: this.tenantKey
+    }
+  }
+
+  validateId (id: string): void {
+    const strategy = this[kIdStrategy]
+    if (strategy === undefined || strategy.validate(id)) return
+    throw new ValidationError([{ path: this.idKey, message: 'must be valid id' }])
+  }
+
   appendBasicSchema (docs: TSchema): TSchema {
     return docs
   }
@@ -295,12 +1596,18 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
   // search is always pre-query
   // we filter first then reduce the area of aggregate
   computePreQuery (options: SearchOptions): AggregateBuilder {
-    let { search, filter }: any = options
+    let { search }: any = options
+    const { filter }: any = options
     this.logger.trace({ func: 'computePreQuery', meta: { search, filter } }, 'started')
     const opt: MatchPipeline = {}
     const arr: any[] = []
     const builder = new AggregateBuilder()
-    if ((isString(search) || isObject(search)) && isExist(search) && (this.searchFields.length > 0)) {
+    // regex search is used as fallback when search is not string
+    const isTextSearch = this.searchMode === 'text' && this.searchFields.length > 0 && isString(search) && isExist(search) && !search.startsWith('{')
+    if (isTextSearch) {
+      arr.push({ $text: { $search: search } })
+    } else if ((isString(search) || isObject(search)) && isExist(search) && (this.searchFields.length > 0)) {
+      this.checkOperators(normalize(search))
       if (this.autoRegExpSearch) { search = transformRegExpSearch(search as any) }
       const sub: any[] = []
       this.searchFields.forEach(function (field) {
@@ -310,22 +1617,25 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     }
 
     if (typeof filter === 'string') {
-      if (!filter.endsWith(',')) filter += ','
-      for (let i = 0; i <= filter.length; i++) {
-        const { endIndex, key, value } = findNextPair(filter, i)
-        if (key === '' && value === '') break
-        let shouldAdd = true
-        for (let j = 0; j < this.postMatchKeywords.length; j++) {
-          if (!shouldAdd) break
-          if (key.includes(this.postMatchKeywords[j])) shouldAdd = false
-        }
-        if (shouldAdd) arr.push({ [key]: normalize(value) })
-        i = endIndex - 1
+      for (const node of parseFilter(filter)) {
+        const keys = retrieveFilterKeys(node)
+        if (this.isPostMatch(keys)) continue
+        this.checkFilterKeys(keys)
+        const query = compileFilter(node)
+        this.checkOperators(query)
+        arr.push(query)
       }
     }
 
+    const deleted = this.computeDeletedQuery(options)
+    if (deleted !== false) arr.push(deleted)
+    const tenant = this.computeTenantQuery()
+    if (tenant !== false) arr.push(tenant)
+
     if (arr.length > 0) opt.$and = arr
     builder.match(opt)
+    // relevance score can be used by sort and projection
+    if (isTextSearch) builder.addFields({ textScore: { $meta: 'textScore' } })
     this.logger.trace({ func: 'computePreQuery', meta: { search, filter } }, 'ended')
     return builder
   }
@@ -333,23 +1643,19 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
   // search is always pre-query
   // we filter first then reduce the area of aggregate
   computePostQuery (options: SearchOptions): AggregateBuilder | false {
-    let { filter }: any = options
+    const { filter }: any = options
     this.logger.trace({ func: 'computePostQuery', meta: { filter } }, 'started')
     const opt: MatchPipeline = {}
     const arr: any[] = []
     const builder = new AggregateBuilder()
     if (typeof filter === 'string') {
-      if (!filter.endsWith(',')) filter += ','
-      for (let i = 0; i <= filter.length; i++) {
-        const { endIndex, key, value } = findNextPair(filter, i)
-        if (key === '' && value === '') break
-        let shouldAdd = false
-        for (let j = 0; j < this.postMatchKeywords.length; j++) {
-          if (shouldAdd) break
-          if (key.includes(this.postMatchKeywords[j])) shouldAdd = true
-        }
-        if (shouldAdd) arr.push({ [key]: normalize(value) })
-        i = endIndex - 1
+      for (const node of parseFilter(filter)) {
+        const keys = retrieveFilterKeys(node)
+        if (!this.isPostMatch(keys)) continue
+        this.checkFilterKeys(keys)
+        const query = compileFilter(node)
+        this.checkOperators(query)
+        arr.push(query)
       }
     }
 
@@ -360,18 +1666,88 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     return builder
   }
 
+  // operator keys are checked by checkOperators
+  checkFilterKeys (keys: string[]): void {
+    const allowed = this.filterableFields
+    if (allowed === undefined) return
+    for (const key of keys) {
+      if (!key.startsWith('$') && !isAllowedKey(allowed, key)) throw new QueryPolicyError('filter', key)
+    }
+  }
+
+  checkSortKeys (keys: string[]): void {
+    const allowed = this.sortableFields
+    if (allowed === undefined) return
+    for (const key of keys) {
+      if (!isAllowedKey(allowed, key)) throw new QueryPolicyError('sort', key)
+    }
+  }
+
+  checkOperators (query: unknown): void {
+    for (const operator of retrieveQueryOperators(query)) {
+      if (this.deniedOperators.includes(operator)) throw new QueryPolicyError('operator', operator)
+      // logical operators are produced by the filter grammar
+      if (this.allowedOperators !== undefined && !kLogicalOperators.has(operator) && !this.allowedOperators.includes(operator)) throw new QueryPolicyError('operator', operator)
+    }
+  }
+
+  // group of condition is post-matched when any of the key is post-matched
+  // populated fields only exist after the lookup
+  isPostMatch (keys: string[]): boolean {
+    return keys.some((key) => this.postMatchKeywords.some((keyword) => key.includes(keyword)) || this.isRelationKey(key))
+  }
+
+  computeDeletedQuery (options?: SoftDeleteOptions): Record<string, unknown> | false {
+    if (!this.softDelete || options?.includeDeleted === true) return false
+    if (options?.onlyDeleted === true) return { deletedAt: { $ne: null } }
+    // null matches both missing and null field
+    return { deletedAt: null }
+  }
+
+  computeTenantQuery (): Record<string, unknown> | false {
+    const tenantId = this.computeTenantId()
+    if (!isString(this.tenantKey) || isUndefined(tenantId)) return false
+    return { [this.tenantKey]: tenantId }
+  }
+
+  computeTenantFilter (filter: Filter<TSchema>): Filter<TSchema> {
+    const tenant = this.computeTenantQuery()
+    if (tenant === false) return filter
+    return mergeQueryFilter(filter, tenant as Filter<TSchema>)
+  }
+
+  // filter used by every operation, which is scoped by tenant and soft delete
+  computeScopedFilter (filter: Filter<TSchema>, options?: SoftDeleteOptions): Filter<TSchema> {
+    return this.computeTenantFilter(this.computeDeletedFilter(filter, options))
+  }
+
+  // restore and purge must not touch the documents which are not deleted
+  checkSoftDelete (): void {
+    if (!this.softDelete) throw new Error('softDelete is not enabled')
+  }
+
+  // always scoped to the deleted documents, it does not depend on computeDeletedQuery
+  computeSoftDeletedFilter (filter: Filter<TSchema>): Filter<TSchema> {
+    return this.computeTenantFilter(mergeQueryFilter(filter, { deletedAt: { $ne: null } } as unknown as Filter<TSchema>))
+  }
+
+  computeDeletedFilter (filter: Filter<TSchema>, options?: SoftDeleteOptions): Filter<TSchema> {
+    const deleted = this.computeDeletedQuery(options)
+    if (deleted === false) return filter
+    return mergeQueryFilter(filter, deleted as Filter<TSchema>)
+  }
+
+  computeVersionFilter (filter: Filter<TSchema>, options?: VersionOptions): Filter<TSchema> {
+    if (!isString(this.versionKey) || !isNumber(options?.expectedVersion)) return filter
+    return mergeQueryFilter(filter, { [this.versionKey]: options?.expectedVersion } as unknown as Filter<TSchema>)
+  }
+
   computeSort (sort?: string): AggregateBuilder | false {
     this.logger.trace({ func: 'computeSort', meta: { sort } }, 'started')
     if (typeof sort === 'string') {
-      const opt: SortPipeline = {}
       const builder = new AggregateBuilder()
-      for (const o of sort.split(',')) {
-        const orderKey = o.startsWith('-') ? '-' : '+'
-        const key = o.replace(orderKey, '').trim()
-        const order = orderKey === '-' ? -1 : 1
-        // prevent empty key
-        if (isExist(key)) opt[key] = order
-      }
+      const opt = parseSort(sort)
+      this.checkSortKeys(Object.keys(opt))
       builder.sort(opt)
       this.logger.trace({ func: 'computeSort', meta: { sort } }, 'ended')
       return builder
@@ -381,6 +1757,24 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     }
   }
 
+  // keys are always kept in the result, it is used by cursor
+  computeProjection (fields?: string, keys: string[] = []): AggregateBuilder | false {
+    this.logger.trace({ func: 'computeProjection', meta: { fields } }, 'started')
+    const opt = parseProjection(fields ?? '')
+    const inclusion = Object.values(opt).includes(1)
+    for (const key of keys) {
+      if (inclusion) opt[key] = 1
+      else Reflect.deleteProperty(opt, key)
+    }
+    this.logger.trace({ func: 'computeProjection', meta: { fields } }, 'ended')
+    if (Object.keys(opt).length === 0) return false
+    return new AggregateBuilder().project(opt)
+  }
+
+  computeFindProjection (options: FindOptions<TSchema> & FieldsOptions): void {
+    if (isString(options.fields)) options.projection = parseProjection(options.fields)
+  }
+
   computeOption (page?: number, pageSize?: number): AggregateBuilder | false {
     this.logger.trace({ func: 'computeOption', meta: { page, pageSize } }, 'started')
     if (typeof page !== 'undefined' && typeof pageSize !== 'undefined') {
@@ -396,26 +1790,137 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
     }
   }
 
+  // id is always used as tiebreaker
+  computeCursorSort (sort?: string): Record<string, 1 | -1> {
+    const opt = parseSort(sort ?? '')
+    this.checkSortKeys(Object.keys(opt))
+    if (!(this.idKey in opt)) opt[this.idKey] = 1
+    return opt
+  }
+
+  // keyset must be applied after post query, so the cursor
+  // always point to the documents which can be seen
+  computeCursorPipeline (options: SearchOptions, cursor: CursorData, pageSize: number): AggregateBuilder {
+    this.logger.trace({ func: 'computeCursorPipeline', meta: options }, 'started')
+    const builder = this.computePreQuery(options)
+    builder.concat(this.buildAggregateBuilder(options))
+    const deferred = this.isPopulateDeferred({ filter: options.filter }, Object.keys(cursor.sort))
+    const n = this.computePopulate(options.populate)
+    if (n !== false && !deferred) builder.concat(n)
+    const q = this.computePostQuery(options)
+    if (q !== false) builder.concat(q)
+    if (cursor.values.length > 0) builder.match(computeKeysetQuery(cursor))
+    const sort: Record<string, 1 | -1> = {}
+    for (const key of Object.keys(cursor.sort)) {
+      sort[key] = cursor.direction === 'next' ? cursor.sort[key] : cursor.sort[key] === 1 ? -1 : 1
+    }
+    builder.sort(sort)
+    // fetch one more document to check if there is more page
+    builder.limit(pageSize + 1)
+    if (n !== false && deferred) builder.concat(n)
+    const f = this.computeProjection(options.fields, Object.keys(cursor.sort))
+    if (f !== false) builder.concat(f)
+    this.logger.trace({ func: 'computeCursorPipeline', meta: options }, 'ended')
+    return builder
+  }
+
   computePipeline (options: SearchOptions = {}): AggregateBuilder {
     this.logger.trace({ func: 'computePipeline', meta: options }, 'started')
     const builder = this.computePreQuery(options)
     builder.concat(this.buildAggregateBuilder(options))
+    const deferred = this.isPopulateDeferred(options)
+    const n = this.computePopulate(options?.populate)
+    if (n !== false && !deferred) builder.concat(n)
     const s = this.computeSort(options?.sort)
     if (s !== false) builder.concat(s)
     const p = this.computeOption(options?.page, options?.pageSize)
     if (p !== false) builder.concat(p)
+    if (n !== false && deferred) builder.concat(n)
     const q = this.computePostQuery(options)
     if (q !== false) builder.concat(q)
+    // projection must be after post query, so it can use any field
+    const f = this.computeProjection(options?.fields)
+    if (f !== false) builder.concat(f)
     this.logger.trace({ func: 'computePipeline', meta: options }, 'ended')
     return builder
   }
 
+  // total must be counted before sort and pagination
+  computeTotalPipeline (options: SearchOptions = {}): AggregateBuilder {
+    this.logger.trace({ func: 'computeTotalPipeline', meta: options }, 'started')
+    // deferred lookup is only applied on the data of current page
+    const deferred = this.isPopulateDeferred(options)
+    const builder = this.computePipeline({ ...options, sort: undefined, page: undefined, pageSize: undefined, fields: undefined, populate: deferred ? undefined : options?.populate })
+    const data = new AggregateBuilder()
+    const s = this.computeSort(options?.sort)
+    if (s !== false) data.concat(s)
+    const p = this.computeOption(options?.page, options?.pageSize)
+    if (p !== false) data.concat(p)
+    const n = deferred && this.computePopulate(options?.populate)
+    if (n !== false) data.concat(n)
+    const f = this.computeProjection(options?.fields)
+    if (f !== false) data.concat(f)
+    builder.facet({
+      data: data.toArray(),
+      total: [{ $count: 'total' }]
+    })
+    this.logger.trace({ func: 'computeTotalPipeline', meta: options }, 'ended')
+    return builder
+  }
+
+  computeFacets (facets?: Array<string | FacetOptions>): FacetOptions[] {
+    const o = (facets ?? []).map((facet) => isString(facet) ? { field: facet } : facet)
+    this.checkFilterKeys(o.map((facet) => facet.field))
+    return o
+  }
+
+  computeFacetPipeline (options: SearchOptions = {}): AggregateBuilder {
+    this.logger.trace({ func: 'computeFacetPipeline', meta: options }, 'started')
+    // populated fields can be counted by facets
+    const deferred = this.isPopulateDeferred(options, this.computeFacets(options?.facets).map((facet) => facet.field))
+    const builder = this.computePipeline({ ...options, sort: undefined, page: undefined, pageSize: undefined, fields: undefined, populate: deferred ? undefined : options?.populate })
+    const data = new AggregateBuilder()
+    const s = this.computeSort(options?.sort)
+    if (s !== false) data.concat(s)
+    const p = this.computeOption(options?.page, options?.pageSize)
+    if (p !== false) data.concat(p)
+    const n = deferred && this.computePopulate(options?.populate)
+    if (n !== false) data.concat(n)
+    const f = this.computeProjection(options?.fields)
+    if (f !== false) data.concat(f)
+    const facet: Record<string, any[]> = { data: data.toArray() }
+    this.computeFacets(options?.facets).forEach(function (option, index) {
+      const path = `$${option.field}`
+      // array field is counted per item
+      const stages: any[] = [{ $unwind: path }]
+      if (isArray(option.boundaries)) {
+        const { boundaries } = option
+        if (isUndefined(option.default)) {
+          stages.push({ $match: { [option.field]: { $gte: boundaries[0], $lt: boundaries[boundaries.length - 1] } } })
+          stages.push({ $bucket: { groupBy: path, boundaries } })
+        } else {
+          stages.push({ $bucket: { groupBy: path, boundaries, default: option.default } })
+        }
+      } else {
+        stages.push({ $sortByCount: path })
+      }
+      stages.push({ $project: { _id: 0, value: '$_id', count: 1 } })
+      // field name may contain dot which is not allowed in $facet
+      facet[`facet_${index}`] = stages
+    })
+    builder.facet(facet)
+    this.logger.trace({ func: 'computeFacetPipeline', meta: options }, 'ended')
+    return builder
+  }
+
   buildAggregateBuilder (_options: SearchOptions): AggregateBuilder {
     return new AggregateBuilder()
   }
 
   async resetDatabase (): Promise<boolean> {
     this.logger.trace({ func: 'resetDatabase' }, 'started')
+    // setup in constructor should not race with drop
+    await this[kReady].catch(noop)
     await this.emit('pre-reset')
     try {
       await this.collection.drop()
@@ -427,7 +1932,9 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
         throw err
       }
     }
-    if (!this[kSkipIndex]) await this[kCreateIndex]()
+    // operations waiting for ready should wait for the recreation
+    this[kReady] = this[kInitialize]()
+    await this[kReady]
     await this.emit('post-reset')
     this.logger.trace({ func: 'resetDatabase' }, 'ended')
     return true
@@ -436,10 +1943,13 @@ export class Controller<TSchema extends Document = Document> extends EventEmitte
 
 export interface Controller<TSchema extends Document = Document> extends EventEmitter {
   on (eventName: 'initialized', listener: () => void | Promise<void>): this
-  on (eventName: 'pre-count', listener: (options: Pick<SearchOptions, 'search' | 'filter'>) => void | Promise<void>): this
-  on (eventName: 'post-count', listener: (result: number, options: Pick<SearchOptions, 'search' | 'filter'>) => void | Promise<void>): this
+  on (eventName: 'pre-count', listener: (options: Pick<SearchOptions, 'search' | 'filter' | 'includeDeleted' | 'onlyDeleted'>) => void | Promise<void>): this
+  on (eventName: 'post-count', listener: (result: number, options: Pick<SearchOptions, 'search' | 'filter' | 'includeDeleted' | 'onlyDeleted'>) => void | Promise<void>): this
   on (eventName: 'pre-search', listener: (options: SearchOptions) => void | Promise<void>): this
   on (eventName: 'post-search', listener: <U = TSchema>(result: U[], options: SearchOptions) => void | Promise<void>): this
+  on (eventName: 'pre-search-stream', listener: (options: SearchOptions) => void | Promise<void>): this
+  // count is the number of documents yielded so far, stream events are emitted also after early break
+  on (eventName: 'post-search-stream', listener: (count: number, options: SearchOptions) => void | Promise<void>): this
   on (eventName: 'pre-insert', listener: (docs: TSchema | TSchema[]) => void | Promise<void>): this
   on (eventName: 'pre-insert-one', listener: (docs: TSchema, options?: InsertOneOptions) => void | Promise<void>): this
   on (eventName: 'post-insert-one', listener: (result: TSchema | null, docs: TSchema, options?: InsertOneOptions) => void | Promise<void>): this
@@ -448,6 +1958,8 @@ export interface Controller<TSchema extends Document = Document> extends EventEm
   on (eventName: 'post-insert', listener: () => void | Promise<void>): this
   on (eventName: 'pre-find', listener: (filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
   on (eventName: 'post-find', listener: (result: TSchema[], filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
+  on (eventName: 'pre-find-stream', listener: (filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
+  on (eventName: 'post-find-stream', listener: (count: number, filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
   on (eventName: 'pre-find-one', listener: (filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
   on (eventName: 'post-find-one', listener: (result: TSchema | null, filter?: Filter<TSchema>, options?: FindOptions<TSchema>) => void | Promise<void>): this
   on (eventName: 'pre-find-by-id', listener: (id: string, options?: FindOptions<TSchema>) => void | Promise<void>): this
@@ -468,6 +1980,28 @@ export interface Controller<TSchema extends Document = Document> extends EventEm
   on (eventName: 'pre-delete-by-id', listener: (id: string, options?: FindOneAndDeleteOptions) => void | Promise<void>): this
   on (eventName: 'post-delete-by-id', listener: (result: TSchema | null, id: string, options?: FindOneAndDeleteOptions) => void | Promise<void>): this
   on (eventName: 'post-delete', listener: () => void | Promise<void>): this
+  on (eventName: 'pre-restore', listener: (filter: Filter<TSchema>) => void | Promise<void>): this
+  on (eventName: 'pre-restore-many', listener: (filter?: Filter<TSchema>, options?: UpdateOptions) => void | Promise<void>): this
+  on (eventName: 'post-restore-many', listener: (result: TSchema[], filter?: Filter<TSchema>, options?: UpdateOptions) => void | Promise<void>): this
+  on (eventName: 'pre-restore-by-id', listener: (id: string, options?: FindOneAndUpdateOptions) => void | Promise<void>): this
+  on (eventName: 'post-restore-by-id', listener: (result: TSchema | null, id: string, options?: FindOneAndUpdateOptions) => void | Promise<void>): this
+  on (eventName: 'post-restore', listener: () => void | Promise<void>): this
+  on (eventName: 'pre-purge', listener: (filter?: Filter<TSchema>, options?: DeleteOptions) => void | Promise<void>): this
+  on (eventName: 'post-purge', listener: (result: TSchema[], filter?: Filter<TSchema>, options?: DeleteOptions) => void | Promise<void>): this
   on (eventName: 'pre-reset', listener: () => void | Promise<void>): this
   on (eventName: 'post-reset', listener: () => void | Promise<void>): this
+  on (eventName: 'pre-sync-indexes', listener: (options: IndexSyncOptions) => void | Promise<void>): this
+  on (eventName: 'pre-bulk', listener: (operations: Array<BulkOperation<TSchema>>, options: BulkWriteOptions) => void | Promise<void>): this
+  on (eventName: 'post-bulk', listener: (result: BulkResult, operations: Array<BulkOperation<TSchema>>, options: BulkWriteOptions) => void | Promise<void>): this
+  on (eventName: 'pre-export', listener: (options: ExportOptions) => void | Promise<void>): this
+  on (eventName: 'export-progress', listener: (count: number) => void | Promise<void>): this
+  on (eventName: 'post-export', listener: (count: number, options: ExportOptions) => void | Promise<void>): this
+  on (eventName: 'pre-import', listener: (options: ImportOptions) => void | Promise<void>): this
+  on (eventName: 'import-progress', listener: (result: ImportResult) => void | Promise<void>): this
+  on (eventName: 'post-import', listener: (result: ImportResult, options: ImportOptions) => void | Promise<void>): this
+  on (eventName: 'change:insert', listener: (change: ChangeStreamInsertDocument<TSchema>) => void | Promise<void>): this
+  on (eventName: 'change:update', listener: (change: ChangeStreamUpdateDocument<TSchema>) => void | Promise<void>): this
+  on (eventName: 'change:delete', listener: (change: ChangeStreamDeleteDocument<TSchema>) => void | Promise<void>): this
+  on (eventName: 'change:replace', listener: (change: ChangeStreamReplaceDocument<TSchema>) => void | Promise<void>): this
+  on (eventName: 'post-sync-indexes', listener: (report: IndexSyncReport, options: IndexSyncOptions) => void | Promise<void>): this
 }
@@ -2,7 +2,7 @@
 import AggregateBuilder from '@kakang/mongodb-aggregate-builder'
 import { isEmpty, isExist, isNull, isUndefined } from '@kakang/validator'
 import { AggregateOptions, Collection, Document, Filter, FindOptions, UpdateFilter, UpdateOptions } from 'mongodb'
-import { computeSharedOption } from '../utils/option'
+import { computeSharedOption, computeTransactionOption } from '../utils/option'
 import { retrieveUpdateQueryData } from '../utils/query'
 import { Controller, ControllerOptions, SearchOptions } from './default'
 
@@ -31,11 +31,13 @@ export class MultiLanguageController<TSchema extends Document = Document> extend
 
   async findOneByLanguage (language: string, filter?: Filter<TSchema>, options?: FindOptions<TSchema>): Promise<{ isFallback: boolean, item: TSchema | null }> {
     this.logger.debug({ func: 'findOneByLanguage', meta: { language, filter, options } }, 'started')
+    options = computeTransactionOption(options)
     filter ??= {}
+    filter = this.mergePolicyFilter(filter, await this.computePolicyFilter('read', 'findOneByLanguage'))
     let isFallback = false
-    let item = await this.collection.findOne({ ...filter, language }, options)
+    let item = await this.collection.findOne<TSchema>(this.computeScopedFilter({ ...filter, language }), options)
     if (isEmpty(item)) {
-      item = await this.collection.findOne(filter, options)
+      item = await this.collection.findOne<TSchema>(this.computeScopedFilter(filter), options)
       isFallback = isExist(item)
     }
     this.logger.debug({ func: 'findOneByLanguage', meta: { language, filter, options } }, 'ended')
@@ -44,7 +46,7 @@ export class MultiLanguageController<TSchema extends Document = Document> extend
 
   async updateOneByLanguage (language: string, filter: Filter<TSchema>, docs: UpdateFilter<TSchema> | Partial<TSchema>, options?: UpdateOptions): Promise<{ isFallback: boolean, item: TSchema | null }> {
     this.logger.debug({ func: 'updateOneByLanguage', meta: { language, filter, docs, options } }, 'started')
-    options ??= {}
+    options = computeTransactionOption(options)
     const sharedOptions = computeSharedOption(options)
     const { isFallback, item } = await this.findOneByLanguage(language, filter, sharedOptions)
     if (isEmpty(item)) return { isFallback, item: null }
@@ -77,6 +79,14 @@ export class MultiLanguageController<TSchema extends Document = Document> extend
     return result
   }
 
+  // language variants are fetched by lookup, the policy must also be applied there
+  mergePolicyPipeline (pipeline: any[], policy: Record<string, unknown> | false): void {
+    super.mergePolicyPipeline(pipeline, policy)
+    for (const stage of pipeline) {
+      if (stage.$lookup?.from === this.collectionName && stage.$lookup.as === 'items') super.mergePolicyPipeline(stage.$lookup.pipeline, policy)
+    }
+  }
+
   buildAggregateBuilder (options: MultiLanguageSearchOptions): AggregateBuilder {
     const builder = new AggregateBuilder()
     // we group by common field after the first match filter
@@ -84,10 +94,16 @@ export class MultiLanguageController<TSchema extends Document = Document> extend
       _id: `$${this.slugField as string}`
     })
     // we fetch all the language
+    // lookup is not scoped by the first match, read policy is merged by mergePolicyPipeline
+    const arr: any[] = [{ $expr: { $eq: [`$${this.slugField as string}`, '$$slug'] } }]
+    const deleted = this.computeDeletedQuery(options)
+    if (deleted !== false) arr.push(deleted)
+    const tenant = this.computeTenantQuery()
+    if (tenant !== false) arr.push(tenant)
     builder.lookup({
       from: this.collectionName,
-      localField: '_id',
-      foreignField: this.slugField as string,
+      let: { slug: '$_id' },
+      pipeline: [{ $match: { $and: arr } }],
       as: 'items'
     })
     // we find if the items have matched language
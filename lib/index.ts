@@ -1,5 +1,14 @@
-export { Controller, ControllerOptions, SearchOptions } from './controller/default'
+export { BulkOperation, BulkOperationResult, BulkOperationType, BulkResult, CacheOptions, Controller, ControllerOptions, CursorSearchResult, ExportOptions, FacetBucket, FacetOptions, FacetSearchResult, FieldsOptions, ImportOptions, ImportResult, ImportRowError, IndexSyncOptions, PaginatedSearchResult, Populate, PopulateOptions, PopulatePath, PreserveOptions, RelationOptions, SearchOptions, SoftDeleteOptions, UpsertResult, VersionOptions, WatchOptions } from './controller/default'
 export { MultiLanguageController, MultiLanguageControllerOptions, MultiLanguageSearchOptions } from './controller/multi-language'
+export { Migration, MigrationRunner, MigrationRunnerOptions, MigrationRunOptions, MigrationStatus } from './migration/runner'
 export * as symbols from './symbols'
+export { CacheStats, CacheStore, LRUCacheStore, LRUCacheStoreOptions } from './utils/cache'
+export { ConflictError, FilterSyntaxError, ForbiddenError, MigrationLockError, QueryPolicyError, SoftDeletedError, ValidationError } from './utils/error'
+export { compileFilter, FilterNode, parseFilter } from './utils/filter'
+export { IdStrategy, IdStrategyName, IdStrategyOption, idStrategies, ulid } from './utils/id'
+export { IndexChange, IndexSyncReport } from './utils/indexes'
 export { computeSharedOption } from './utils/option'
+export { matchPolicyFilter, Policies, Policy, PolicyContext, PolicyOperation, PolicyResult } from './utils/policy'
 export { isUpdateQuery, mergeUpdateQueryData, retrieveUpdateQueryData } from './utils/query'
+export { JSONSchema, validate, ValidationIssue } from './utils/schema'
+export { CSVColumn, TransferFormat } from './utils/transfer'
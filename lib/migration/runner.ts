@@ -0,0 +1,187 @@
+import { isEmpty, isString } from '@kakang/validator'
+import { randomUUID } from 'crypto'
+import { Collection, Db } from 'mongodb'
+import { P } from 'pino'
+import { Controller } from '../controller/default'
+import { kCollection, kControllers, kLockCollection, kLogger, kMigrations } from '../symbols'
+import { MigrationLockError } from '../utils/error'
+import { createLogger } from '../utils/logger'
+
+export interface Migration<TControllers = Record<string, Controller<any>>> {
+  // unique and stable, it is recorded once applied
+  name: string
+  up: (controllers: TControllers) => Promise<void>
+  // migration without down can not be rolled back
+  down?: (controllers: TControllers) => Promise<void>
+}
+
+export interface MigrationRunnerOptions<TControllers = Record<string, Controller<any>>> {
+  logger: P.LoggerOptions | P.BaseLogger
+  // passed to every migration, so the append schema and events still apply
+  controllers: TControllers
+  // applied migrations are recorded in this collection
+  collectionName: string
+  // lock older than it is treated as stale, e.g. the process is crashed
+  lockTimeout: number
+}
+
+export interface MigrationRunOptions {
+  // only report the migrations which would be run, nothing is locked or written
+  dryRun?: boolean
+  // up stops after this migration, down stops before this migration
+  to?: string
+}
+
+export interface MigrationStatus {
+  name: string
+  applied: boolean
+  appliedAt: Date | null
+}
+
+interface MigrationRecord {
+  _id: string
+  appliedAt: Date
+}
+
+interface MigrationLock {
+  _id: string
+  owner: string
+  lockedAt: Date
+}
+
+export class MigrationRunner<TControllers = Record<string, Controller<any>>> {
+  private [kCollection]: Collection<MigrationRecord>
+  private [kLockCollection]: Collection<MigrationLock>
+  private [kLogger]: P.BaseLogger
+  private [kControllers]: TControllers
+  private [kMigrations]: Array<Migration<TControllers>>
+
+  lockTimeout: number
+
+  get collection (): Collection<MigrationRecord> {
+    return this[kCollection]
+  }
+
+  get logger (): P.BaseLogger {
+    return this[kLogger]
+  }
+
+  // registration order is the order of execution
+  get migrations (): Array<Migration<TControllers>> {
+    return this[kMigrations].slice()
+  }
+
+  constructor (db?: Db, options?: Partial<MigrationRunnerOptions<TControllers>>) {
+    if (isEmpty(db)) throw new Error('db expected to be an object, but recieved "' + typeof db + '"')
+    const collectionName = options?.collectionName ?? '_migrations'
+    this[kCollection] = db.collection(collectionName)
+    this[kLockCollection] = db.collection(`${collectionName}_lock`)
+    this[kLogger] = createLogger(collectionName, options?.logger)
+    this[kControllers] = options?.controllers ?? {} as any
+    this[kMigrations] = []
+    this.lockTimeout = options?.lockTimeout ?? 10 * 60 * 1000
+  }
+
+  register (...migrations: Array<Migration<TControllers>>): this {
+    for (const migration of migrations) {
+      if (!isString(migration.name) || migration.name === '') throw new Error('migration name expected to be non-empty string')
+      if (this[kMigrations].some((m) => m.name === migration.name)) throw new Error('migration "' + migration.name + '" is already registered')
+      this[kMigrations].push(migration)
+    }
+    return this
+  }
+
+  async status (): Promise<MigrationStatus[]> {
+    const records = await this.collection.find({}).toArray()
+    const applied = new Map(records.map((record) => [record._id, record.appliedAt]))
+    return this[kMigrations].map(({ name }) => ({ name, applied: applied.has(name), appliedAt: applied.get(name) ?? null }))
+  }
+
+  // return the name of migrations applied, or would be applied in dry run
+  async up (options?: MigrationRunOptions): Promise<string[]> {
+    this.logger.debug({ func: 'up', meta: options }, 'started')
+    const plan = async (): Promise<Array<Migration<TControllers>>> => {
+      const status = await this.status()
+      const end = this.computeIndex(options?.to)
+      return this[kMigrations].filter((_, index) => index <= end && !status[index].applied)
+    }
+    // plan is computed inside the lock, another process may have applied some of them
+    const pending = options?.dryRun === true
+      ? await plan()
+      : await this.runWithLock(async () => {
+        const pending = await plan()
+        for (const migration of pending) {
+          this.logger.info({ func: 'up', meta: { name: migration.name } }, 'applying')
+          await migration.up(this[kControllers])
+          await this.collection.insertOne({ _id: migration.name, appliedAt: new Date() })
+        }
+        return pending
+      })
+    this.logger.debug({ func: 'up', meta: options }, 'ended')
+    return pending.map((migration) => migration.name)
+  }
+
+  // only the last applied migration is rolled back when "to" is not provided
+  async down (options?: MigrationRunOptions): Promise<string[]> {
+    this.logger.debug({ func: 'down', meta: options }, 'started')
+    const plan = async (): Promise<Array<Migration<TControllers>>> => {
+      const status = await this.status()
+      const start = isString(options?.to) ? this.computeIndex(options?.to) + 1 : 0
+      let applied = this[kMigrations].filter((_, index) => index >= start && status[index].applied).reverse()
+      if (!isString(options?.to)) applied = applied.slice(0, 1)
+      // checked before anything is rolled back
+      for (const migration of applied) {
+        if (migration.down === undefined) throw new Error('migration "' + migration.name + '" can not be rolled back')
+      }
+      return applied
+    }
+    const applied = options?.dryRun === true
+      ? await plan()
+      : await this.runWithLock(async () => {
+        const applied = await plan()
+        for (const migration of applied) {
+          this.logger.info({ func: 'down', meta: { name: migration.name } }, 'rolling back')
+          await migration.down?.(this[kControllers])
+          await this.collection.deleteOne({ _id: migration.name })
+        }
+        return applied
+      })
+    this.logger.debug({ func: 'down', meta: options }, 'ended')
+    return applied.map((migration) => migration.name)
+  }
+
+  // last index when name is not provided
+  computeIndex (name?: string): number {
+    if (!isString(name)) return this[kMigrations].length - 1
+    const index = this[kMigrations].findIndex((migration) => migration.name === name)
+    if (index === -1) throw new Error('migration "' + name + '" is not registered')
+    return index
+  }
+
+  async runWithLock<T> (fn: () => Promise<T>): Promise<T> {
+    const owner = randomUUID()
+    try {
+      // match only when the lock is stale, upsert fails with duplicate key when it is held
+      await this[kLockCollection].updateOne({ _id: 'lock', lockedAt: { $lt: new Date(Date.now() - this.lockTimeout) } }, { $set: { owner, lockedAt: new Date() } }, { upsert: true })
+    } catch (err: any) {
+      if (err.code === 11000) throw new MigrationLockError()
+      throw err
+    }
+    // lock is refreshed while running, so long migration is not treated as stale
+    const heartbeat = this.lockTimeout > 0
+      ? setInterval(() => {
+        this[kLockCollection].updateOne({ _id: 'lock', owner }, { $set: { lockedAt: new Date() } }).then((result) => {
+          if (result.matchedCount === 0) this.logger.error({ func: 'runWithLock', meta: { owner } }, 'lock is taken over')
+        }, (err) => {
+          this.logger.error({ func: 'runWithLock', meta: { err } }, 'failed to refresh lock')
+        })
+      }, this.lockTimeout / 2)
+      : undefined
+    try {
+      return await fn()
+    } finally {
+      clearInterval(heartbeat)
+      await this[kLockCollection].deleteOne({ _id: 'lock', owner })
+    }
+  }
+}
@@ -4,3 +4,22 @@ export const kLogger = Symbol.for('mc.logger')
 export const kIndexes = Symbol.for('mc.indexes')
 export const kSkipIndex = Symbol.for('mc.skipIndex')
 export const kCreateIndex = Symbol.for('mc.createIndex')
+export const kSchema = Symbol.for('mc.schema')
+export const kSchemaValidator = Symbol.for('mc.schemaValidator')
+export const kDb = Symbol.for('mc.db')
+export const kWaitReady = Symbol.for('mc.waitReady')
+export const kReady = Symbol.for('mc.ready')
+export const kInitialize = Symbol.for('mc.initialize')
+export const kCache = Symbol.for('mc.cache')
+export const kCacheOptions = Symbol.for('mc.cacheOptions')
+export const kCacheStats = Symbol.for('mc.cacheStats')
+export const kCacheGeneration = Symbol.for('mc.cacheGeneration')
+export const kIdStrategy = Symbol.for('mc.idStrategy')
+export const kTenantId = Symbol.for('mc.tenantId')
+export const kTenantResolver = Symbol.for('mc.tenantResolver')
+export const kActor = Symbol.for('mc.actor')
+export const kPolicies = Symbol.for('mc.policies')
+export const kRelations = Symbol.for('mc.relations')
+export const kMigrations = Symbol.for('mc.migrations')
+export const kControllers = Symbol.for('mc.controllers')
+export const kLockCollection = Symbol.for('mc.lockCollection')
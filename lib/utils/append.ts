@@ -1,14 +1,34 @@
-import { isArray } from '@kakang/validator'
+import { isArray, isNull, isObject, isString, isUndefined } from '@kakang/validator'
 import { randomUUID } from 'crypto'
 import { Document, UpdateFilter } from 'mongodb'
-import { isUpdateQuery, retrieveUpdateQueryData } from './query'
+import { isUpdateQuery, normalizeQueryDate, retrieveUpdateQueryData } from './query'
 
-function _appendBasicSchema<TSchema extends Document = Document> (docs: TSchema, now: Date): TSchema {
+export interface AppendSchemaOptions {
+  // field used for optimistic concurrency control
+  versionKey?: string | false
+  // randomUUID is used when not provided
+  generateId?: (doc: Document, key: string) => string
+  // field names, false means the timestamp is disabled
+  idKey?: string
+  createdAtKey?: string | false
+  updatedAtKey?: string | false
+  // document can not be moved to another tenant by update
+  tenantKey?: string | false
+  // id, timestamps and version of the document are kept when present, used by import
+  preserve?: boolean
+}
+
+function _appendBasicSchema<TSchema extends Document = Document> (docs: TSchema, now: Date, options?: AppendSchemaOptions): TSchema {
+  const idKey = options?.idKey ?? 'id'
+  const createdAtKey = options?.createdAtKey ?? 'createdAt'
+  const updatedAtKey = options?.updatedAtKey ?? 'updatedAt'
+  const isPreserved = (key: string): boolean => options?.preserve === true && !isUndefined(docs[key]) && !isNull(docs[key]) && docs[key] !== ''
   // we shallow clone
   const doc: any = { ...docs }
-  doc.id = randomUUID()
-  doc.createdAt = now
-  doc.updatedAt = now
+  if (!isPreserved(idKey)) doc[idKey] = options?.generateId?.(docs, idKey) ?? randomUUID()
+  if (isString(createdAtKey) && !isPreserved(createdAtKey)) doc[createdAtKey] = now
+  if (isString(updatedAtKey) && !isPreserved(updatedAtKey)) doc[updatedAtKey] = now
+  if (isString(options?.versionKey) && !isPreserved(options?.versionKey as string)) doc[options?.versionKey as string] = 0
   return doc
 }
 
@@ -18,29 +38,57 @@ function _noopAppendBasicSchema<TSchema extends Document = Document> (docs: TSch
 
 export type AppendBasicSchema<TSchema extends Document = Document> = (docs: TSchema, now: Date) => TSchema
 
-export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema, append?: AppendBasicSchema<TSchema>): TSchema
-export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema[], append?: AppendBasicSchema<TSchema>): TSchema[]
-export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema | TSchema[], append: AppendBasicSchema<TSchema> = _noopAppendBasicSchema): TSchema | TSchema[] {
+export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema, append?: AppendBasicSchema<TSchema>, options?: AppendSchemaOptions): TSchema
+export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema[], append?: AppendBasicSchema<TSchema>, options?: AppendSchemaOptions): TSchema[]
+export function appendBasicSchema<TSchema extends Document = Document> (docs: TSchema | TSchema[], append: AppendBasicSchema<TSchema> = _noopAppendBasicSchema, options?: AppendSchemaOptions): TSchema | TSchema[] {
   const now = new Date()
   if (isArray(docs)) {
     return docs.map(function (d) {
-      return append(_appendBasicSchema(d, now), now)
+      return append(_appendBasicSchema(d, now, options), now)
     })
   } else {
-    return append(_appendBasicSchema(docs, now), now)
+    return append(_appendBasicSchema(docs, now, options), now)
+  }
+}
+
+// any operator on the tenant field is removed, e.g. $unset and $rename
+function _stripTenantKey<TSchema extends Document = Document> (docs: UpdateFilter<TSchema> | Partial<TSchema>, tenantKey: string): UpdateFilter<TSchema> | Partial<TSchema> {
+  const isTenantPath = (path: unknown): boolean => isString(path) && (path === tenantKey || path.startsWith(`${tenantKey}.`))
+  if (!isUpdateQuery(docs)) return Object.fromEntries(Object.entries(docs).filter(([key]) => !isTenantPath(key))) as Partial<TSchema>
+  const query: any = { ...docs }
+  for (const operator of Object.keys(query)) {
+    if (operator === '$set' || !isObject(query[operator])) continue
+    query[operator] = Object.fromEntries(Object.entries(query[operator]).filter(([key, value]) => !isTenantPath(key) && !(operator === '$rename' && isTenantPath(value))))
+    // empty operator is rejected by server
+    if (Object.keys(query[operator]).length === 0) Reflect.deleteProperty(query, operator)
   }
+  if (isObject(query.$set)) query.$set = _stripTenantKey(query.$set, tenantKey)
+  return query
 }
 
-export function appendUpdateSchema<TSchema extends Document = Document> (docs: UpdateFilter<TSchema>, append?: AppendBasicSchema<TSchema>): UpdateFilter<TSchema>
-export function appendUpdateSchema<TSchema extends Document = Document> (docs: Partial<TSchema>, append?: AppendBasicSchema<TSchema>): TSchema
-export function appendUpdateSchema<TSchema extends Document = Document> (docs: UpdateFilter<TSchema> | Partial<TSchema>, append: AppendBasicSchema<TSchema> = _noopAppendBasicSchema): UpdateFilter<TSchema> | TSchema {
+export function appendUpdateSchema<TSchema extends Document = Document> (docs: UpdateFilter<TSchema>, append?: AppendBasicSchema<TSchema>, options?: AppendSchemaOptions): UpdateFilter<TSchema>
+export function appendUpdateSchema<TSchema extends Document = Document> (docs: Partial<TSchema>, append?: AppendBasicSchema<TSchema>, options?: AppendSchemaOptions): TSchema
+export function appendUpdateSchema<TSchema extends Document = Document> (docs: UpdateFilter<TSchema> | Partial<TSchema>, append: AppendBasicSchema<TSchema> = _noopAppendBasicSchema, options?: AppendSchemaOptions): UpdateFilter<TSchema> | TSchema {
   const now = new Date()
+  if (isString(options?.tenantKey)) docs = _stripTenantKey(docs, options?.tenantKey as string)
   const doc = retrieveUpdateQueryData(docs)
-  const item: any = append(_appendBasicSchema(doc, now), now)
-  delete item.id
-  delete item.createdAt
+  const item: any = append(_appendBasicSchema(doc, now, { ...options, generateId: undefined }), now)
+  const createdAtKey = options?.createdAtKey ?? 'createdAt'
+  Reflect.deleteProperty(item, options?.idKey ?? 'id')
+  if (isString(createdAtKey)) Reflect.deleteProperty(item, createdAtKey)
+  // version must be increased by $inc, so we always return update query
+  if (isString(options?.versionKey)) {
+    const key = options?.versionKey as string
+    // version can only be changed by $inc
+    Reflect.deleteProperty(item, key)
+    const query: any = normalizeQueryDate(docs)
+    // empty $set is rejected by old server
+    if (Object.keys(item).length > 0 || '$set' in query) query.$set = item
+    query.$inc = { ...query.$inc, [key]: 1 }
+    return query
+  }
   if (isUpdateQuery(docs)) {
-    docs.$set = item
+    if (Object.keys(item).length > 0 || '$set' in docs) docs.$set = item
     return docs
   } else {
     return item
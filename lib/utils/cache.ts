@@ -0,0 +1,88 @@
+import { isNumber } from '@kakang/validator'
+import * as mongodb from 'mongodb'
+import { stringifyJSON } from './json'
+
+interface BSONSerializer {
+  serialize: (doc: mongodb.Document, options?: { ignoreUndefined?: boolean }) => Buffer
+  deserialize: (buffer: Buffer) => mongodb.Document
+}
+
+// BSON of the driver is exported at runtime, but it is excluded from the type of mongodb 4
+// the same BSON is used, so the deserialized value is the instance of the driver classes
+const BSON = (mongodb as unknown as { BSON: BSONSerializer }).BSON
+
+// external store, e.g. redis, should implement this interface
+export interface CacheStore {
+  get: (key: string) => Promise<unknown | undefined>
+  // ttl in milliseconds
+  set: (key: string, value: unknown, ttl?: number) => Promise<void>
+  delete: (key: string) => Promise<void>
+  clear: () => Promise<void>
+}
+
+export interface CacheStats {
+  hits: number
+  misses: number
+}
+
+export interface LRUCacheStoreOptions {
+  // maximum number of entries
+  max?: number
+  // default ttl in milliseconds, 0 means no expiry
+  ttl?: number
+}
+
+interface LRUCacheEntry {
+  // serialized as BSON, so every BSON type is kept, e.g. Decimal128 and Binary
+  value: Buffer
+  expireAt: number
+}
+
+// Map keeps the insertion order, the first entry is the least recently used
+// value is serialized on set and deserialized on get, so mutation of the result do not leak into the cache
+export class LRUCacheStore implements CacheStore {
+  max: number
+  ttl: number
+  entries: Map<string, LRUCacheEntry>
+
+  constructor (options?: LRUCacheStoreOptions) {
+    this.max = options?.max ?? 1000
+    this.ttl = options?.ttl ?? 0
+    this.entries = new Map()
+  }
+
+  get size (): number {
+    return this.entries.size
+  }
+
+  async get (key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key)
+    if (entry === undefined) return undefined
+    this.entries.delete(key)
+    if (entry.expireAt > 0 && entry.expireAt <= Date.now()) return undefined
+    this.entries.set(key, entry)
+    return BSON.deserialize(entry.value).value
+  }
+
+  async set (key: string, value: unknown, ttl?: number): Promise<void> {
+    ttl = isNumber(ttl) ? ttl : this.ttl
+    this.entries.delete(key)
+    // BSON document is required at the top level
+    this.entries.set(key, { value: BSON.serialize({ value }, { ignoreUndefined: true }), expireAt: ttl > 0 ? Date.now() + ttl : 0 })
+    while (this.entries.size > this.max) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  async delete (key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear (): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+export function computeCacheKey (prefix: string, ...values: unknown[]): string {
+  return `${prefix}:${stringifyJSON(values)}`
+}
@@ -0,0 +1,57 @@
+import { isArray, isNull, isObject, isUndefined } from '@kakang/validator'
+import { isPlainObject, parseJSON, stringifyJSON } from './json'
+
+export type CursorDirection = 'next' | 'prev'
+
+export interface CursorData {
+  // direction of the listing
+  direction: CursorDirection
+  // sort keys used when the cursor is created
+  sort: Record<string, 1 | -1>
+  // value of each sort key of the boundary document
+  values: unknown[]
+}
+
+export function encodeCursor (data: CursorData): string {
+  return Buffer.from(stringifyJSON([data.direction, data.sort, data.values])).toString('base64url')
+}
+
+// cursor is provided by client, object value is rejected so it can not carry query operator
+export function decodeCursor (cursor: string): CursorData {
+  try {
+    const [direction, sort, values] = parseJSON(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if ((direction !== 'next' && direction !== 'prev') || !isObject(sort) || !isArray(values)) throw new Error()
+    if (values.some((value) => isPlainObject(value))) throw new Error()
+    return { direction, sort: sort as Record<string, 1 | -1>, values }
+  } catch {
+    throw new Error('invalid cursor "' + cursor + '"')
+  }
+}
+
+export function retrieveValueByPath (doc: any, path: string): unknown {
+  let value = doc
+  for (const key of path.split('.')) {
+    if (isUndefined(value) || isNull(value)) return value
+    value = value[key]
+  }
+  return value
+}
+
+// build the keyset condition which match the documents after
+// the boundary document in the given direction
+export function computeKeysetQuery (data: CursorData): Record<string, unknown> {
+  const keys = Object.keys(data.sort)
+  const $or: any[] = []
+  for (let i = 0; i < keys.length; i++) {
+    const condition: Record<string, unknown> = {}
+    for (let j = 0; j < i; j++) {
+      // $eq treat the value as literal
+      condition[keys[j]] = { $eq: data.values[j] }
+    }
+    const ascending = data.sort[keys[i]] === 1
+    const forward = data.direction === 'next'
+    condition[keys[i]] = { [ascending === forward ? '$gt' : '$lt']: data.values[i] }
+    $or.push(condition)
+  }
+  return { $or }
+}
@@ -0,0 +1,73 @@
+import { ValidationIssue } from './schema'
+
+export class ConflictError extends Error {
+  expectedVersion: number
+  actualVersion?: number
+
+  constructor (expectedVersion: number, actualVersion?: number) {
+    super('version conflict, expected "' + String(expectedVersion) + '" but recieved "' + String(actualVersion) + '"')
+    this.name = 'ConflictError'
+    this.expectedVersion = expectedVersion
+    this.actualVersion = actualVersion
+  }
+}
+
+export class ValidationError extends Error {
+  errors: ValidationIssue[]
+
+  constructor (errors: ValidationIssue[]) {
+    super('validation failed, ' + errors.map((e) => `"${e.path}" ${e.message}`).join(', '))
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+export class FilterSyntaxError extends Error {
+  offset: number
+
+  constructor (message: string, offset: number) {
+    super(message + ' at offset ' + String(offset))
+    this.name = 'FilterSyntaxError'
+    this.offset = offset
+  }
+}
+
+export class QueryPolicyError extends Error {
+  key: string
+  kind: 'filter' | 'sort' | 'operator'
+
+  constructor (kind: 'filter' | 'sort' | 'operator', key: string) {
+    super(kind + ' "' + key + '" is not allowed')
+    this.name = 'QueryPolicyError'
+    this.kind = kind
+    this.key = key
+  }
+}
+
+export class ForbiddenError extends Error {
+  operation: string
+
+  constructor (operation: string) {
+    super(operation + ' is forbidden')
+    this.name = 'ForbiddenError'
+    this.operation = operation
+  }
+}
+
+// soft deleted document must be restored before it is written by id again
+export class SoftDeletedError extends Error {
+  id: string
+
+  constructor (id: string) {
+    super('document "' + id + '" is soft deleted')
+    this.name = 'SoftDeletedError'
+    this.id = id
+  }
+}
+
+export class MigrationLockError extends Error {
+  constructor () {
+    super('migration is locked by another process')
+    this.name = 'MigrationLockError'
+  }
+}
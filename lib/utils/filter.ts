@@ -0,0 +1,200 @@
+import { FilterSyntaxError } from './error'
+import { normalize } from './query'
+
+export type FilterOperator = ':' | '!=' | '>' | '>=' | '<' | '<='
+
+export type FilterNode =
+  | { type: 'and' | 'or', nodes: FilterNode[] }
+  | { type: 'not', node: FilterNode }
+  | { type: 'condition', key: string, operator: FilterOperator, value: string, quoted: boolean }
+
+const kKeyAllowedCharacters = /[a-zA-Z0-9_.$]/
+const kQuote = new Set(['"', "'"])
+const kStart = new Set(['{', '['])
+const kEnd = new Set(['}', ']'])
+const kValueDelimiter = new Set([',', '|'])
+const kOperators: FilterOperator[] = ['!=', '>=', '<=', ':', '>', '<']
+const kMongoOperators: Record<Exclude<FilterOperator, ':'>, string> = {
+  '!=': '$ne',
+  '>': '$gt',
+  '>=': '$gte',
+  '<': '$lt',
+  '<=': '$lte'
+}
+
+// grammar, comma binds looser than pipe
+//   list      := term ( ',' term )* [ ',' ]
+//   term      := unary ( '|' unary )*
+//   unary     := '!' unary | '(' list ')' | condition
+//   condition := key operator value
+class FilterParser {
+  text: string
+  index: number
+  // number of open "(", ")" only ends the value inside a group
+  depth: number
+
+  constructor (text: string) {
+    this.text = text
+    this.index = 0
+    this.depth = 0
+  }
+
+  // empty string means end of text
+  peek (): string {
+    return this.text[this.index] ?? ''
+  }
+
+  error (message: string): FilterSyntaxError {
+    return new FilterSyntaxError(message, this.index)
+  }
+
+  skipWhitespace (): void {
+    while (/\s/.test(this.peek())) this.index++
+  }
+
+  parse (): FilterNode[] {
+    this.skipWhitespace()
+    if (this.peek() === '') return []
+    const nodes = this.parseList()
+    if (this.peek() !== '') throw this.error(`unexpected "${this.peek()}"`)
+    return nodes
+  }
+
+  parseList (): FilterNode[] {
+    const nodes: FilterNode[] = [this.parseTerm()]
+    while (this.peek() === ',') {
+      this.index++
+      this.skipWhitespace()
+      // trailing comma
+      if (this.peek() === '' || this.peek() === ')') break
+      nodes.push(this.parseTerm())
+    }
+    return nodes
+  }
+
+  parseTerm (): FilterNode {
+    const nodes: FilterNode[] = [this.parseUnary()]
+    while (this.peek() === '|') {
+      this.index++
+      nodes.push(this.parseUnary())
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes }
+  }
+
+  parseUnary (): FilterNode {
+    this.skipWhitespace()
+    let node: FilterNode
+    if (this.peek() === '!') {
+      this.index++
+      return { type: 'not', node: this.parseUnary() }
+    } else if (this.peek() === '(') {
+      this.index++
+      this.depth++
+      this.skipWhitespace()
+      const nodes = this.parseList()
+      if (this.peek() !== ')') throw this.error(this.peek() === '' ? 'missing ")"' : `unexpected "${this.peek()}"`)
+      this.index++
+      this.depth--
+      node = nodes.length === 1 ? nodes[0] : { type: 'and', nodes }
+    } else {
+      node = this.parseCondition()
+    }
+    this.skipWhitespace()
+    return node
+  }
+
+  parseCondition (): FilterNode {
+    const key = this.parseKey()
+    this.skipWhitespace()
+    const operator = kOperators.find((o) => this.text.startsWith(o, this.index))
+    if (operator === undefined) throw this.error(this.peek() === '' ? `missing operator after "${key}"` : `unexpected "${this.peek()}"`)
+    this.index += operator.length
+    this.skipWhitespace()
+    if (kQuote.has(this.peek())) {
+      return { type: 'condition', key, operator, value: this.parseQuoted(), quoted: true }
+    } else {
+      return { type: 'condition', key, operator, value: this.parseValue(), quoted: false }
+    }
+  }
+
+  parseKey (): string {
+    if (kQuote.has(this.peek())) return this.parseQuoted()
+    const start = this.index
+    while (kKeyAllowedCharacters.test(this.peek())) this.index++
+    if (start === this.index) throw this.error(this.peek() === '' ? 'missing key' : `unexpected "${this.peek()}"`)
+    return this.text.slice(start, this.index)
+  }
+
+  parseQuoted (): string {
+    const quote = this.peek()
+    const start = this.index
+    let value = ''
+    this.index++
+    while (this.peek() !== quote) {
+      if (this.peek() === '') throw new FilterSyntaxError(`missing closing ${quote}`, start)
+      if (this.peek() === '\\') this.index++
+      value += this.peek()
+      this.index++
+    }
+    this.index++
+    return value
+  }
+
+  // value is read until delimiter outside of JSON
+  parseValue (): string {
+    const start = this.index
+    let nested = 0
+    let quote: string | undefined
+    while (this.peek() !== '') {
+      const char = this.peek()
+      if (quote !== undefined) {
+        if (char === '\\') this.index++
+        else if (char === quote) quote = undefined
+      } else if (nested > 0 && char === '"') {
+        quote = char
+      } else if (kStart.has(char)) {
+        nested++
+      } else if (kEnd.has(char)) {
+        if (nested === 0) throw this.error(`unexpected "${char}"`)
+        nested--
+      } else if (nested === 0 && (kValueDelimiter.has(char) || (this.depth > 0 && char === ')'))) {
+        break
+      }
+      this.index++
+    }
+    if (nested > 0 || quote !== undefined) throw new FilterSyntaxError('unterminated value', start)
+    return this.text.slice(start, this.index).trim()
+  }
+}
+
+export function parseFilter (text: string): FilterNode[] {
+  return new FilterParser(text).parse()
+}
+
+export function compileFilter (node: FilterNode): Record<string, unknown> {
+  switch (node.type) {
+    case 'and':
+      return { $and: node.nodes.map(compileFilter) }
+    case 'or':
+      return { $or: node.nodes.map(compileFilter) }
+    case 'not':
+      return { $nor: [compileFilter(node.node)] }
+    case 'condition': {
+      const value = node.quoted ? node.value : normalize(node.value)
+      if (node.operator === ':') return { [node.key]: value }
+      return { [node.key]: { [kMongoOperators[node.operator]]: value } }
+    }
+  }
+}
+
+export function retrieveFilterKeys (node: FilterNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(retrieveFilterKeys)
+    case 'not':
+      return retrieveFilterKeys(node.node)
+    case 'condition':
+      return [node.key]
+  }
+}
@@ -0,0 +1,66 @@
+import { isString } from '@kakang/validator'
+import { randomBytes, randomUUID } from 'crypto'
+import { Document, ObjectId } from 'mongodb'
+
+export interface IdStrategy {
+  // key is the configured id field name
+  generate: (doc: Document, key: string) => string
+  // false when the id is not in the expected format
+  validate: (id: string) => boolean
+}
+
+export type IdStrategyName = 'uuid' | 'ulid' | 'objectId' | 'preserve-if-present'
+
+export type IdStrategyOption = IdStrategyName | IdStrategy | ((doc: Document, key: string) => string)
+
+const kCrockford = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const kUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const kULID = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/
+const kObjectId = /^[0-9a-f]{24}$/i
+
+// 48 bits timestamp followed by 80 bits randomness, lexicographically sortable by time
+export function ulid (now: number = Date.now()): string {
+  let time = ''
+  for (let i = 0; i < 10; i++) {
+    time = kCrockford[now % 32] + time
+    now = Math.floor(now / 32)
+  }
+  let random = ''
+  for (const byte of randomBytes(16)) {
+    random += kCrockford[byte % 32]
+  }
+  return time + random
+}
+
+function isNonEmptyString (id: string): boolean {
+  return isString(id) && id.length > 0
+}
+
+export const idStrategies: Record<IdStrategyName, IdStrategy> = {
+  uuid: {
+    generate: () => randomUUID(),
+    validate: (id) => isString(id) && kUUID.test(id)
+  },
+  ulid: {
+    generate: () => ulid(),
+    validate: (id) => isString(id) && kULID.test(id)
+  },
+  objectId: {
+    generate: () => new ObjectId().toHexString(),
+    validate: (id) => isString(id) && kObjectId.test(id)
+  },
+  'preserve-if-present': {
+    generate: (doc, key) => isNonEmptyString(doc[key]) ? doc[key] : randomUUID(),
+    validate: isNonEmptyString
+  }
+}
+
+export function resolveIdStrategy (option: IdStrategyOption): IdStrategy {
+  if (isString(option)) {
+    const strategy = idStrategies[option]
+    if (strategy === undefined) throw new Error('unknown id strategy "' + option + '"')
+    return strategy
+  }
+  if (typeof option === 'function') return { generate: option, validate: isNonEmptyString }
+  return option
+}
@@ -0,0 +1,69 @@
+import { isArray, isString } from '@kakang/validator'
+import { CreateIndexesOptions, Document, IndexSpecification } from 'mongodb'
+
+// options which make two indexes with same key behave differently
+const kComparableOptions = ['unique', 'sparse', 'partialFilterExpression', 'expireAfterSeconds', 'collation', 'weights'] as const
+
+export interface IndexChange {
+  name: string
+  option: string
+  expected: unknown
+  actual: unknown
+}
+
+export interface IndexSyncReport {
+  // name of indexes created
+  created: string[]
+  // name of indexes exist in database but not declared
+  stale: string[]
+  // name of stale indexes dropped
+  dropped: string[]
+  // declared indexes which options are different from database
+  changed: IndexChange[]
+  // name of changed indexes rebuilt
+  rebuilt: string[]
+  unchanged: string[]
+}
+
+export function normalizeIndexKey (spec: IndexSpecification): Record<string, unknown> {
+  if (isString(spec)) return { [spec]: 1 }
+  if (spec instanceof Map) return Object.fromEntries(spec)
+  if (isArray(spec)) {
+    const key: Record<string, unknown> = {}
+    for (const item of spec as any[]) {
+      if (isString(item)) key[item] = 1
+      else if (isArray(item)) key[item[0]] = item[1]
+      else Object.assign(key, item instanceof Map ? Object.fromEntries(item) : item)
+    }
+    return key
+  }
+  return { ...(spec as Record<string, unknown>) }
+}
+
+// same as the default name generated by MongoDB
+export function computeIndexName (key: Record<string, unknown>): string {
+  return Object.keys(key).map((k) => `${k}_${String(key[k])}`).join('_')
+}
+
+export function isSameIndexKey (a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return JSON.stringify(Object.entries(a)) === JSON.stringify(Object.entries(b))
+}
+
+export function diffIndexOptions (name: string, expected: CreateIndexesOptions, actual: Document): IndexChange[] {
+  const changes: IndexChange[] = []
+  for (const option of kComparableOptions) {
+    let e: any = expected[option]
+    let a: any = actual[option]
+    if (option === 'unique' || option === 'sparse') {
+      // false when not provided
+      e ??= false
+      a ??= false
+    } else if (option === 'collation' || option === 'weights') {
+      // server fill the default values, we only compare the declared one
+      if (e === undefined) continue
+      a = Object.fromEntries(Object.keys(e).map((k) => [k, a?.[k]]))
+    }
+    if (JSON.stringify(e) !== JSON.stringify(a)) changes.push({ name, option, expected: e, actual: a })
+  }
+  return changes
+}
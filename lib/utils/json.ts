@@ -0,0 +1,41 @@
+import { isArray, isNull, isObject, isString } from '@kakang/validator'
+import { ObjectId } from 'mongodb'
+
+export function isObjectId (value: unknown): boolean {
+  const type = (value as any)?._bsontype
+  return type === 'ObjectID' || type === 'ObjectId'
+}
+
+export function isPlainObject (value: unknown): value is Record<string, unknown> {
+  return isObject(value) && !isNull(value) && !isArray(value) && !(value instanceof Date) && !(value instanceof RegExp) && !isObjectId(value)
+}
+
+function replacer (this: any, key: string, value: unknown): unknown {
+  // Date#toJSON is called before replacer, so we check the raw value
+  const raw = this[key]
+  if (raw instanceof Date) return { $date: raw.toISOString() }
+  if (raw instanceof RegExp) return { $regex: raw.source, $options: raw.flags }
+  if (isObjectId(raw)) return { $oid: raw.toHexString() }
+  return value
+}
+
+function reviver (_key: string, value: unknown): unknown {
+  if (!isPlainObject(value)) return value
+  const keys = Object.keys(value)
+  if (keys.length === 1 && isString(value.$date)) {
+    const date = new Date(value.$date)
+    if (!isNaN(date.getTime())) return date
+  }
+  if (keys.length === 1 && isString(value.$oid) && ObjectId.isValid(value.$oid)) return new ObjectId(value.$oid)
+  if (keys.length === 2 && isString(value.$regex) && isString(value.$options)) return new RegExp(value.$regex, value.$options)
+  return value
+}
+
+// Date, RegExp and ObjectId are stored in the extended JSON format, so they can be revived losslessly
+export function stringifyJSON (value: unknown): string {
+  return JSON.stringify(value, replacer)
+}
+
+export function parseJSON (text: string): any {
+  return JSON.parse(text, reviver)
+}
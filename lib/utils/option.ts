@@ -1,4 +1,5 @@
 import { ClientSession } from 'mongodb'
+import { transactionStorage } from './transaction'
 
 export function computeSharedOption (option?: any): { session?: ClientSession } {
   option ??= {}
@@ -8,3 +9,14 @@ export function computeSharedOption (option?: any): { session?: ClientSession }
     return {}
   }
 }
+
+// inject the session of current transaction when it is not provided
+export function computeTransactionOption<T extends object> (option?: T): T {
+  option ??= {} as any
+  const context = transactionStorage.getStore()
+  if (context !== undefined && !('session' in (option as any))) {
+    return { ...option, session: context.session } as any
+  } else {
+    return option as T
+  }
+}
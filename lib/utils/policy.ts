@@ -0,0 +1,30 @@
+import { isObject } from '@kakang/validator'
+import { retrieveValueByPath } from './cursor'
+
+export type PolicyOperation = 'read' | 'insert' | 'update' | 'delete'
+
+export interface PolicyContext {
+  operation: PolicyOperation
+  // controller method which trigger the policy
+  method: string
+}
+
+// true or undefined means allow, false means deny
+// object is merged into the query as extra filter
+export type PolicyResult = boolean | Record<string, unknown> | undefined
+
+export type Policy<TActor = any> = (actor: TActor | undefined, context: PolicyContext) => PolicyResult | Promise<PolicyResult>
+
+export type Policies<TActor = any> = Partial<Record<PolicyOperation, Policy<TActor>>>
+
+// insert has no query, so the filter is checked against the document
+// only equality condition is supported, e.g. { authorId: 'foo', 'meta.status': 'draft' }
+export function matchPolicyFilter (doc: unknown, filter: Record<string, unknown>): boolean {
+  return Object.keys(filter).every(function (key) {
+    const expected = filter[key]
+    if (isObject(expected) && expected !== null && Object.keys(expected).some((k) => k.startsWith('$'))) {
+      throw new Error('policy filter of insert only support equality condition, but received "' + key + '"')
+    }
+    return JSON.stringify(retrieveValueByPath(doc, key)) === JSON.stringify(expected)
+  })
+}
@@ -1,5 +1,5 @@
-import { Date as D, isArray, isJSON, isNull, isNumber, isObject, isString } from '@kakang/validator'
-import { Document, UpdateFilter } from 'mongodb'
+import { Date as D, isArray, isEmpty, isJSON, isNull, isNumber, isObject, isString } from '@kakang/validator'
+import { Document, Filter, UpdateFilter } from 'mongodb'
 
 const UpdateQueryKeys = new Set(['$currentDate', '$inc', '$min', '$max', '$mul', '$rename', '$set', '$setOnInsert', '$unset', '$addToSet', '$pop', '$pull', '$push', '$pushAll', '$bit'])
 
@@ -25,6 +25,46 @@ export function mergeUpdateQueryData<TSchema extends Document = Document> (from:
   return { ...from, ...to, $set: data }
 }
 
+export function mergeQueryFilter<TSchema extends Document = Document> (filter: Filter<TSchema>, condition: Filter<TSchema>): Filter<TSchema> {
+  if (isEmpty(filter)) return condition
+  return { $and: [filter, condition] } as unknown as Filter<TSchema>
+}
+
+// fields copied into the document created by upsert
+// only top-level equality is supported, condition with operator is skipped
+export function retrieveFilterEquality<TSchema extends Document = Document> (filter: Filter<TSchema>): Record<string, unknown> {
+  const o: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(filter)) {
+    if (key.startsWith('$') || key.includes('.')) continue
+    if (isObject(value) && !isNull(value) && !isArray(value) && Object.keys(value).some((k) => k.startsWith('$'))) continue
+    o[key] = value
+  }
+  return o
+}
+
+// sort string is in the format of "+a,-b"
+export function parseSort (sort: string): Record<string, 1 | -1> {
+  const opt: Record<string, 1 | -1> = {}
+  for (const o of sort.split(',')) {
+    const orderKey = o.startsWith('-') ? '-' : '+'
+    const key = o.replace(orderKey, '').trim()
+    const order = orderKey === '-' ? -1 : 1
+    // prevent empty key
+    if (key !== '') opt[key] = order
+  }
+  return opt
+}
+
+// fields string share the same format of sort
+export function parseProjection (fields: string): Record<string, 0 | 1> {
+  const opt: Record<string, 0 | 1> = {}
+  const sort = parseSort(fields)
+  for (const key of Object.keys(sort)) {
+    opt[key] = sort[key] === 1 ? 1 : 0
+  }
+  return opt
+}
+
 export function normalize (text: any): unknown {
   // security guard
   const tmp = isObject(text) && !isNull(text) ? JSON.stringify(text) : String(text)
@@ -71,40 +111,23 @@ export function normalize (text: any): unknown {
   return text
 }
 
-const kStart = new Set(['{', '['])
-const kEnd = new Set(['}', ']'])
-const kKeyAllowedCharacters = new Set(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M', 'N', 'O', 'P', 'Q', 'R', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z', '0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '$'])
-const kDelimiter = [':', ',']
-
-export function findNextPair (text: string, startIndex = 0): { startIndex: number, endIndex: number, key: string, value: string } {
-  const result = {
-    startIndex,
-    endIndex: 0,
-    key: '',
-    value: ''
-  }
-  let foundKey = false
-  let nested = 0
-
-  for (let i = result.startIndex; i < text.length; i++) {
-    const char = text[i]
-    if (!foundKey) {
-      // looking for key
-      if (kKeyAllowedCharacters.has(char)) result.key += char
-      else if (char === kDelimiter[0]) foundKey = true
-    } else {
-      // looking for value
-      if (kStart.has(char)) nested++
-      if (kEnd.has(char)) nested--
-      if (nested === 0 && char === kDelimiter[1]) {
-        result.endIndex = i + 1
-        break
-      }
-      result.value += char
+// collect every operator used in the query, including nested one
+export function retrieveQueryOperators (query: unknown): string[] {
+  const operators: string[] = []
+  if (isArray(query)) {
+    for (const item of query) operators.push(...retrieveQueryOperators(item))
+  } else if (isObject(query) && !isNull(query) && !(query instanceof Date)) {
+    for (const key of Object.keys(query)) {
+      if (key.startsWith('$')) operators.push(key)
+      operators.push(...retrieveQueryOperators((query as any)[key]))
     }
   }
+  return operators
+}
 
-  return result
+// nested key is allowed when its parent is allowed, e.g. "foo" allows "foo.bar"
+export function isAllowedKey (allowed: string[], key: string): boolean {
+  return allowed.some((k) => key === k || key.startsWith(k + '.'))
 }
 
 export function transformRegExpSearch (text: string | Record<string, unknown>): unknown {
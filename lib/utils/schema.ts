@@ -0,0 +1,207 @@
+import { isArray, isBoolean, isNull, isNumber, isString, isUndefined } from '@kakang/validator'
+import { isObjectId, isPlainObject } from './json'
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+export type BSONSchemaType = 'string' | 'double' | 'int' | 'long' | 'decimal' | 'number' | 'bool' | 'object' | 'array' | 'null' | 'date' | 'objectId' | 'regex'
+
+// subset of JSON Schema which is also accepted by MongoDB $jsonSchema
+export interface JSONSchema {
+  title?: string
+  description?: string
+  type?: JSONSchemaType | JSONSchemaType[]
+  bsonType?: BSONSchemaType | BSONSchemaType[]
+  enum?: unknown[]
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  minProperties?: number
+  maxProperties?: number
+  items?: JSONSchema
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  allOf?: JSONSchema[]
+  anyOf?: JSONSchema[]
+  oneOf?: JSONSchema[]
+  not?: JSONSchema
+}
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface ValidateOptions {
+  // partial document, used by update query
+  // required check is skipped and dot notation key is resolved
+  partial?: boolean
+}
+
+function matchType (type: JSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string': return isString(value)
+    case 'number': return isNumber(value) && !isNaN(value)
+    case 'integer': return isNumber(value) && Number.isInteger(value)
+    case 'boolean': return isBoolean(value)
+    case 'object': return isPlainObject(value)
+    case 'array': return isArray(value)
+    case 'null': return isNull(value)
+  }
+}
+
+function matchBSONType (type: BSONSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string': return isString(value)
+    case 'double':
+    case 'number': return isNumber(value) && !isNaN(value)
+    case 'int':
+    case 'long': return isNumber(value) && Number.isInteger(value)
+    case 'decimal': return (value as any)?._bsontype === 'Decimal128'
+    case 'bool': return isBoolean(value)
+    case 'object': return isPlainObject(value)
+    case 'array': return isArray(value)
+    case 'null': return isNull(value)
+    case 'date': return value instanceof Date
+    case 'objectId': return isObjectId(value)
+    case 'regex': return value instanceof RegExp
+  }
+}
+
+function joinPath (path: string, key: string | number): string {
+  return path === '' ? String(key) : `${path}.${key}`
+}
+
+function _validate (schema: JSONSchema, value: unknown, path: string, issues: ValidationIssue[], partial: boolean): void {
+  if (isArray(schema.type) || isString(schema.type)) {
+    const types = ([] as JSONSchemaType[]).concat(schema.type)
+    if (!types.some((type) => matchType(type, value))) {
+      issues.push({ path, message: `must be ${types.join(' or ')}` })
+      return
+    }
+  }
+
+  if (isArray(schema.bsonType) || isString(schema.bsonType)) {
+    const types = ([] as BSONSchemaType[]).concat(schema.bsonType)
+    if (!types.some((type) => matchBSONType(type, value))) {
+      issues.push({ path, message: `must be ${types.join(' or ')}` })
+      return
+    }
+  }
+
+  if (isArray(schema.enum) && !schema.enum.some((item) => JSON.stringify(item) === JSON.stringify(value))) {
+    issues.push({ path, message: 'must be one of the allowed values' })
+  }
+
+  if (isNumber(value)) {
+    if (isNumber(schema.minimum) && value < schema.minimum) issues.push({ path, message: `must be >= ${schema.minimum}` })
+    if (isNumber(schema.maximum) && value > schema.maximum) issues.push({ path, message: `must be <= ${schema.maximum}` })
+    if (isNumber(schema.exclusiveMinimum) && value <= schema.exclusiveMinimum) issues.push({ path, message: `must be > ${schema.exclusiveMinimum}` })
+    if (isNumber(schema.exclusiveMaximum) && value >= schema.exclusiveMaximum) issues.push({ path, message: `must be < ${schema.exclusiveMaximum}` })
+    if (isNumber(schema.multipleOf) && value % schema.multipleOf !== 0) issues.push({ path, message: `must be multiple of ${schema.multipleOf}` })
+  }
+
+  if (isString(value)) {
+    if (isNumber(schema.minLength) && value.length < schema.minLength) issues.push({ path, message: `must not have fewer than ${schema.minLength} characters` })
+    if (isNumber(schema.maxLength) && value.length > schema.maxLength) issues.push({ path, message: `must not have more than ${schema.maxLength} characters` })
+    if (isString(schema.pattern) && !new RegExp(schema.pattern, 'u').test(value)) issues.push({ path, message: `must match pattern "${schema.pattern}"` })
+  }
+
+  if (isArray(value)) {
+    if (isNumber(schema.minItems) && value.length < schema.minItems) issues.push({ path, message: `must not have fewer than ${schema.minItems} items` })
+    if (isNumber(schema.maxItems) && value.length > schema.maxItems) issues.push({ path, message: `must not have more than ${schema.maxItems} items` })
+    if (schema.uniqueItems === true && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) issues.push({ path, message: 'must not have duplicate items' })
+    if (isPlainObject(schema.items)) {
+      for (let i = 0; i < value.length; i++) {
+        _validate(schema.items, value[i], joinPath(path, i), issues, false)
+      }
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (isNumber(schema.minProperties) && keys.length < schema.minProperties) issues.push({ path, message: `must not have fewer than ${schema.minProperties} properties` })
+    if (isNumber(schema.maxProperties) && keys.length > schema.maxProperties) issues.push({ path, message: `must not have more than ${schema.maxProperties} properties` })
+    if (!partial && isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (isUndefined(value[key])) issues.push({ path: joinPath(path, key), message: 'is required' })
+      }
+    }
+    const properties = schema.properties ?? {}
+    for (const key of keys) {
+      if (isPlainObject(properties[key])) {
+        _validate(properties[key], value[key], joinPath(path, key), issues, false)
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not allowed' })
+      } else if (isPlainObject(schema.additionalProperties)) {
+        _validate(schema.additionalProperties, value[key], joinPath(path, key), issues, false)
+      }
+    }
+  }
+
+  if (isArray(schema.allOf)) {
+    for (const sub of schema.allOf) _validate(sub, value, path, issues, partial)
+  }
+
+  if (isArray(schema.anyOf) && !schema.anyOf.some((sub) => validate(sub, value, { partial }).length === 0)) {
+    issues.push({ path, message: 'must match at least one schema in anyOf' })
+  }
+
+  if (isArray(schema.oneOf) && schema.oneOf.filter((sub) => validate(sub, value, { partial }).length === 0).length !== 1) {
+    issues.push({ path, message: 'must match exactly one schema in oneOf' })
+  }
+
+  if (isPlainObject(schema.not) && validate(schema.not, value, { partial }).length === 0) {
+    issues.push({ path, message: 'must not match schema in not' })
+  }
+}
+
+// resolve the schema of dot notation key, e.g. "foo.0.bar"
+// false means the key is not allowed by additionalProperties
+export function resolveSchemaByPath (schema: JSONSchema, path: string): JSONSchema | false | undefined {
+  let current: JSONSchema | undefined = schema
+  for (const key of path.split('.')) {
+    if (isUndefined(current)) return undefined
+    if (isPlainObject(current.properties?.[key])) {
+      current = current.properties?.[key]
+    } else if (/^\d+$/.test(key) && isPlainObject(current.items)) {
+      current = current.items
+    } else if (isPlainObject(current.additionalProperties)) {
+      current = current.additionalProperties
+    } else if (current.additionalProperties === false) {
+      return false
+    } else {
+      return undefined
+    }
+  }
+  return current
+}
+
+export function validate (schema: JSONSchema, value: unknown, options?: ValidateOptions): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const partial = options?.partial ?? false
+  if (partial && isPlainObject(value)) {
+    // key with dot notation is resolved against nested schema
+    const o: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      if (!key.includes('.')) {
+        o[key] = value[key]
+        continue
+      }
+      const sub = resolveSchemaByPath(schema, key)
+      if (sub === false) issues.push({ path: key, message: 'is not allowed' })
+      else if (!isUndefined(sub)) _validate(sub, value[key], key, issues, false)
+    }
+    _validate(schema, o, '', issues, true)
+  } else {
+    _validate(schema, value, '', issues, partial)
+  }
+  return issues
+}
@@ -0,0 +1,10 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { ClientSession } from 'mongodb'
+
+export interface TransactionContext {
+  session: ClientSession
+  // post events are deferred until the transaction is committed
+  events: Array<() => Promise<unknown>>
+}
+
+export const transactionStorage = new AsyncLocalStorage<TransactionContext>()
@@ -0,0 +1,344 @@
+import { isArray, isNull, isObject, isString, isUndefined } from '@kakang/validator'
+import { Document } from 'mongodb'
+import { once } from 'events'
+import { Writable } from 'stream'
+import { StringDecoder } from 'string_decoder'
+import { retrieveValueByPath } from './cursor'
+import { ValidationError } from './error'
+import { isPlainObject, parseJSON, stringifyJSON } from './json'
+
+export type TransferFormat = 'ndjson' | 'json' | 'csv'
+
+export interface CSVColumn {
+  // dot notation path of the document
+  field: string
+  // same as field when not provided
+  header?: string
+  // inferred from the cell when not provided
+  type?: 'string' | 'number' | 'boolean' | 'date' | 'json'
+}
+
+export interface CSVCell {
+  value: string
+  // quoted cell is always string, except JSON object and array
+  quoted: boolean
+}
+
+export interface ImportRecord {
+  // 1-based index of the record, header is not counted
+  row: number
+  doc?: Document
+  error?: Error
+}
+
+const kFormats = new Set<string>(['ndjson', 'json', 'csv'])
+const kNumber = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/
+const kISODate = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+
+function isJSONLike (value: string): boolean {
+  return (value.startsWith('{') && value.endsWith('}')) || (value.startsWith('[') && value.endsWith(']'))
+}
+
+export function assertTransferFormat (format: string): asserts format is TransferFormat {
+  if (!kFormats.has(format)) throw new Error('unknown format "' + format + '"')
+}
+
+export function normalizeCSVColumns (columns: Array<string | CSVColumn>): CSVColumn[] {
+  return columns.map((column) => isString(column) ? { field: column } : column)
+}
+
+// type of unquoted cell
+export function inferCSVValue (value: string): unknown {
+  if (value === '') return undefined
+  if (value === 'true') return true
+  if (value === 'false') return false
+  if (kNumber.test(value)) return Number(value)
+  if (kISODate.test(value)) return new Date(value)
+  if (isJSONLike(value)) {
+    try {
+      return parseJSON(value)
+    } catch {
+      return value
+    }
+  }
+  return value
+}
+
+export function normalizeCSVCell (cell: CSVCell, field: string, type?: CSVColumn['type']): unknown {
+  const { value, quoted } = cell
+  if (value === '' && !quoted) return undefined
+  switch (type) {
+    case 'string':
+      return value
+    case 'number': {
+      const n = Number(value)
+      if (value.trim() === '' || isNaN(n)) throw new ValidationError([{ path: field, message: 'must be number' }])
+      return n
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') throw new ValidationError([{ path: field, message: 'must be boolean' }])
+      return value === 'true'
+    case 'date': {
+      const date = new Date(value)
+      if (isNaN(date.getTime())) throw new ValidationError([{ path: field, message: 'must be date' }])
+      return date
+    }
+    case 'json':
+      try {
+        return parseJSON(value)
+      } catch {
+        throw new ValidationError([{ path: field, message: 'must be JSON' }])
+      }
+    default:
+      // JSON always contains quote, so it must be quoted
+      return quoted ? (isJSONLike(value) ? inferCSVValue(value) : value) : inferCSVValue(value)
+  }
+}
+
+function quote (value: string): string {
+  return '"' + value.replace(/"/g, '""') + '"'
+}
+
+// string which looks like JSON is read as JSON, use column type "string" to keep it
+export function stringifyCSVCell (value: unknown): string {
+  if (isUndefined(value) || isNull(value)) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (isString(value)) {
+    // string is quoted when it would be read as another type
+    return /[",\r\n]/.test(value) || inferCSVValue(value) !== value ? quote(value) : value
+  }
+  if (isObject(value)) return quote(stringifyJSON(value))
+  return String(value)
+}
+
+export function stringifyCSVRow (values: unknown[]): string {
+  return values.map(stringifyCSVCell).join(',') + '\n'
+}
+
+// incremental parser, record can be splitted across chunks
+export class CSVParser {
+  records: CSVCell[][]
+  record: CSVCell[]
+  cell: string
+  quoted: boolean
+  inQuote: boolean
+  // quote inside quoted cell is either escape or the end of cell
+  pendingQuote: boolean
+
+  constructor () {
+    this.records = []
+    this.record = []
+    this.cell = ''
+    this.quoted = false
+    this.inQuote = false
+    this.pendingQuote = false
+  }
+
+  write (text: string): CSVCell[][] {
+    for (const char of text) {
+      if (this.inQuote) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false
+          if (char === '"') {
+            this.cell += char
+            continue
+          }
+          this.inQuote = false
+        } else {
+          if (char === '"') this.pendingQuote = true
+          else this.cell += char
+          continue
+        }
+      }
+      if (char === '"' && this.cell === '' && !this.quoted) {
+        this.inQuote = true
+        this.quoted = true
+      } else if (char === ',') {
+        this.endCell()
+      } else if (char === '\n') {
+        this.endCell()
+        this.endRecord()
+      } else if (char !== '\r') {
+        this.cell += char
+      }
+    }
+    return this.flush()
+  }
+
+  end (): CSVCell[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false
+      this.inQuote = false
+    }
+    if (this.inQuote) throw new Error('unterminated quoted cell')
+    if (this.cell !== '' || this.quoted || this.record.length > 0) {
+      this.endCell()
+      this.endRecord()
+    }
+    return this.flush()
+  }
+
+  endCell (): void {
+    this.record.push({ value: this.cell, quoted: this.quoted })
+    this.cell = ''
+    this.quoted = false
+  }
+
+  endRecord (): void {
+    this.records.push(this.record)
+    this.record = []
+  }
+
+  flush (): CSVCell[][] {
+    const records = this.records
+    this.records = []
+    return records
+  }
+}
+
+function setValueByPath (doc: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.')
+  const last = keys.pop() as string
+  let current = doc
+  for (const key of keys) {
+    if (!isPlainObject(current[key])) current[key] = {}
+    current = current[key]
+  }
+  current[last] = value
+}
+
+// documents are written one by one, the stream is not ended
+export class ExportSerializer {
+  format: TransferFormat
+  columns?: CSVColumn[]
+  count: number
+
+  constructor (format: TransferFormat, columns?: Array<string | CSVColumn>) {
+    assertTransferFormat(format)
+    this.format = format
+    this.columns = isArray(columns) ? normalizeCSVColumns(columns) : undefined
+    this.count = 0
+  }
+
+  header (): string {
+    return stringifyCSVRow((this.columns ?? []).map((column) => column.header ?? column.field))
+  }
+
+  push (doc: Document): string {
+    this.count++
+    switch (this.format) {
+      case 'ndjson':
+        return stringifyJSON(doc) + '\n'
+      case 'json':
+        return (this.count === 1 ? '[\n' : ',\n') + stringifyJSON(doc)
+      case 'csv': {
+        // columns are taken from the first document when not provided
+        this.columns ??= Object.keys(doc).map((field) => ({ field }))
+        const row = stringifyCSVRow(this.columns.map((column) => retrieveValueByPath(doc, column.field)))
+        return this.count === 1 ? this.header() + row : row
+      }
+    }
+  }
+
+  end (): string {
+    switch (this.format) {
+      case 'ndjson':
+        return ''
+      case 'json':
+        return this.count === 0 ? '[]\n' : '\n]\n'
+      case 'csv':
+        return this.count === 0 && isArray(this.columns) ? this.header() : ''
+    }
+  }
+}
+
+// wait for drain when the buffer of stream is full
+export async function writeChunk (stream: Writable, chunk: string): Promise<void> {
+  if (chunk === '') return
+  if (!stream.write(chunk)) await once(stream, 'drain')
+}
+
+async function * readText (stream: AsyncIterable<string | Buffer>): AsyncGenerator<string, void, undefined> {
+  // multi-byte character can be splitted across chunks
+  const decoder = new StringDecoder('utf8')
+  for await (const chunk of stream) {
+    yield isString(chunk) ? chunk : decoder.write(chunk)
+  }
+  yield decoder.end()
+}
+
+function computeJSONRecord (value: unknown, row: number): ImportRecord {
+  if (!isPlainObject(value)) return { row, error: new ValidationError([{ path: '', message: 'must be object' }]) }
+  return { row, doc: value }
+}
+
+// error of single record is returned instead of thrown, so the import can continue
+export async function * readImportRecords (stream: AsyncIterable<string | Buffer>, format: TransferFormat, columns?: Array<string | CSVColumn>): AsyncGenerator<ImportRecord, void, undefined> {
+  assertTransferFormat(format)
+  let row = 0
+  if (format === 'json') {
+    // JSON array can only be parsed as a whole, ndjson should be used for large data
+    let text = ''
+    for await (const chunk of readText(stream)) text += chunk
+    const docs = parseJSON(text)
+    if (!isArray(docs)) throw new Error('json import expected an array')
+    for (const doc of docs) yield computeJSONRecord(doc, ++row)
+  } else if (format === 'ndjson') {
+    let buffer = ''
+    const parseLine = (line: string): ImportRecord => {
+      try {
+        return computeJSONRecord(parseJSON(line), row)
+      } catch (err: any) {
+        return { row, error: err }
+      }
+    }
+    for await (const chunk of readText(stream)) {
+      const lines = (buffer + chunk).split('\n')
+      buffer = lines.pop() as string
+      for (const line of lines) {
+        if (line.trim() === '') continue
+        row++
+        yield parseLine(line)
+      }
+    }
+    if (buffer.trim() !== '') {
+      row++
+      yield parseLine(buffer)
+    }
+  } else {
+    const parser = new CSVParser()
+    const mapping = isArray(columns) ? new Map(normalizeCSVColumns(columns).map((column) => [column.header ?? column.field, column])) : undefined
+    let headers: Array<CSVColumn | undefined> | undefined
+    const parseRecord = (cells: CSVCell[]): ImportRecord => {
+      const doc: Record<string, unknown> = {}
+      try {
+        for (const [index, column] of (headers as Array<CSVColumn | undefined>).entries()) {
+          // header which is not mapped is ignored
+          if (isUndefined(column)) continue
+          const value = normalizeCSVCell(cells[index] ?? { value: '', quoted: false }, column.field, column.type)
+          if (!isUndefined(value)) setValueByPath(doc, column.field, value)
+        }
+        return { row, doc }
+      } catch (err: any) {
+        return { row, error: err }
+      }
+    }
+    const chunks = readText(stream)
+    let done = false
+    while (!done) {
+      const next = await chunks.next()
+      done = next.done === true
+      const records = done ? parser.end() : parser.write(next.value as string)
+      for (const cells of records) {
+        // blank line
+        if (cells.length === 1 && cells[0].value === '' && !cells[0].quoted) continue
+        if (isUndefined(headers)) {
+          headers = cells.map(({ value }) => isUndefined(mapping) ? { field: value } : mapping.get(value))
+          continue
+        }
+        row++
+        yield parseRecord(cells)
+      }
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('bulkWrite', async function (t) {
+  t.plan(9)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('bulkWrite'), { logger: { level: 'silent' } })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+
+  ctr.on('pre-bulk', function () { t.pass() })
+  ctr.on('post-bulk', function () { t.pass() })
+
+  const result = await ctr.bulkWrite([
+    { insertOne: { document: { foo: 'baz' } } },
+    { updateOne: { filter: { id: inserted?.id }, update: { foo: 'qux' } } },
+    { deleteMany: { filter: { foo: 'baz' } } }
+  ])
+  t.equal(result.ok, true)
+  t.equal(result.insertedCount, 1)
+  t.equal(result.modifiedCount, 1)
+  t.equal(result.deletedCount, 1)
+  t.equal(typeof result.results[0].id, 'string')
+
+  const found = await ctr.findById(inserted?.id)
+  t.equal(found?.foo, 'qux')
+  t.ok(found?.updatedAt instanceof Date)
+})
+
+t.test('bulkWrite - ordered and unordered', async function (t) {
+  t.plan(8)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('bulkWriteOrder'), {
+    logger: { level: 'silent' },
+    indexes: [{ indexSpec: { foo: 1 }, options: { unique: true } }]
+  })
+  await ctr.ready()
+  await ctr.insertOne({ foo: 'duplicate' })
+
+  ctr.on('pre-insert', function (doc: any) {
+    if (doc.invalid === true) throw new Error('invalid')
+  })
+
+  let result = await ctr.bulkWrite([
+    { insertOne: { document: { foo: 'bar' } } },
+    { insertOne: { document: { invalid: true } } },
+    { insertOne: { document: { foo: 'baz' } } }
+  ])
+  t.equal(result.ok, false)
+  t.same(result.results.map((result) => result.ok), [true, false, false])
+  t.equal(result.results[1].error?.message, 'invalid')
+  t.equal(result.results[2].error, undefined)
+
+  // duplicate key is rejected by the unique index
+  result = await ctr.bulkWrite([
+    { insertOne: { document: { foo: 'qux' } } },
+    { insertOne: { document: { foo: 'duplicate' } } },
+    { insertOne: { document: { invalid: true } } },
+    { insertOne: { document: { foo: 'quux' } } }
+  ], { ordered: false })
+  t.equal(result.ok, false)
+  t.same(result.results.map((result) => result.ok), [true, false, false, true])
+  t.ok(result.results[1].error)
+  t.equal(result.insertedCount, 2)
+})
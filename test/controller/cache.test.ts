@@ -0,0 +1,47 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('cache', async function (t) {
+  t.plan(9)
+  const db = await build(t)
+  const collection = db.collection('cache')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, cache: { findOne: true, search: true } })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+
+  await ctr.findById(inserted?.id)
+  // write outside of controller is not visible until invalidation
+  await collection.updateOne({ id: inserted?.id }, { $set: { foo: 'baz' } })
+  t.equal((await ctr.findById(inserted?.id))?.foo, 'bar')
+  t.same(ctr.cacheStats(), { hits: 1, misses: 1 })
+
+  await ctr.updateById(inserted?.id, { foo: 'qux' })
+  t.equal((await ctr.findById(inserted?.id))?.foo, 'qux')
+
+  t.equal((await ctr.findOne({ foo: 'qux' }))?.id, inserted?.id)
+  t.equal((await ctr.search({ filter: 'foo:qux' })).length, 1)
+  await ctr.insertOne({ foo: 'qux' })
+  t.equal((await ctr.search({ filter: 'foo:qux' })).length, 2)
+
+  await ctr.deleteById(inserted?.id)
+  t.equal(await ctr.findById(inserted?.id), null)
+  t.equal(await ctr.findOne({ id: inserted?.id }), null)
+
+  await ctr.resetDatabase()
+  t.equal((await ctr.search()).length, 0)
+})
+
+t.test('cache - ttl', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+  const collection = db.collection('cacheTTL')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, cache: { ttl: 50 } })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+  await ctr.findById(inserted?.id)
+  await collection.updateOne({ id: inserted?.id }, { $set: { foo: 'baz' } })
+  t.equal((await ctr.findById(inserted?.id))?.foo, 'bar')
+  await new Promise((resolve) => setTimeout(resolve, 100))
+  t.equal((await ctr.findById(inserted?.id))?.foo, 'baz')
+})
@@ -1,10 +1,11 @@
 import AggregateBuild from '@kakang/mongodb-aggregate-builder'
 import t from 'tap'
 import { Controller } from '../../lib/controller/default'
+import { QueryPolicyError } from '../../lib/utils/error'
 import { build } from '../utils/factory'
 
 t.test('compute', async function (t) {
-  t.plan(24)
+  t.plan(25)
 
   const db = await build(t)
   const ctr = new Controller(db.collection('compute'), { logger: { level: 'silent' } })
@@ -85,6 +86,13 @@ t.test('compute', async function (t) {
   query = ctr.computePipeline({ filter: `foo:${JSON.stringify({ $exists: false })}` })
   t.same(query.toArray(), [{ $match: { $and: [{ foo: { $exists: false } }] } }])
 
+  ctr.searchFields = []
+  ctr.autoRegExpSearch = false
+  ctr.postMatchKeywords = ['bar']
+  query = ctr.computePipeline({ filter: 'foo:baz,(foo:bar|bar:baz)' })
+  t.same(query.toArray(), [{ $match: { $and: [{ foo: 'baz' }] } }, { $match: { $and: [{ $or: [{ foo: 'bar' }, { bar: 'baz' }] }] } }])
+  ctr.postMatchKeywords = []
+
   let sort = ctr.computeSort()
   t.same(sort, false)
 
@@ -113,3 +121,174 @@ t.test('compute', async function (t) {
   option = ctr.computeOption(0, 10) as AggregateBuild
   t.same(option.toArray(), [{ $limit: 10 }, { $skip: 0 }])
 })
+
+t.test('compute with allowlist', async function (t) {
+  t.plan(6)
+
+  const db = await build(t)
+  const ctr = new Controller(db.collection('computeAllowlist'), {
+    logger: { level: 'silent' },
+    searchFields: ['foo'],
+    filterableFields: ['foo', 'bar'],
+    sortableFields: ['foo'],
+    deniedOperators: ['$where', '$expr']
+  })
+
+  const query = ctr.computePipeline({ filter: 'foo:baz,bar.baz>1', sort: '-foo' })
+  t.same(query.toArray(), [{ $match: { $and: [{ foo: 'baz' }, { 'bar.baz': { $gt: 1 } }] } }, { $sort: { foo: -1 } }])
+
+  t.throws(() => ctr.computePipeline({ filter: 'baz:1' }), new QueryPolicyError('filter', 'baz'))
+  t.throws(() => ctr.computePipeline({ filter: 'foo:1|baz:1' }), new QueryPolicyError('filter', 'baz'))
+  t.throws(() => ctr.computePipeline({ sort: 'bar' }), new QueryPolicyError('sort', 'bar'))
+  t.throws(() => ctr.computePipeline({ filter: '$expr:{"$eq":["$foo","$bar"]}' }), new QueryPolicyError('operator', '$expr'))
+
+  ctr.allowedOperators = ['$in']
+  t.throws(() => ctr.computePipeline({ search: { $ne: 'foo' } }), new QueryPolicyError('operator', '$ne'))
+})
+
+t.test('compute with fields', async function (t) {
+  t.plan(4)
+
+  const db = await build(t)
+  const ctr = new Controller(db.collection('computeFields'), { logger: { level: 'silent' }, postMatchKeywords: ['bar'] })
+
+  const query = ctr.computePipeline({ filter: 'bar:1', fields: 'foo,-_id' })
+  t.same(query.toArray(), [{ $match: {} }, { $match: { $and: [{ bar: 1 }] } }, { $project: { foo: 1, _id: 0 } }])
+
+  let projection = ctr.computeProjection() as AggregateBuild
+  t.equal(projection, false)
+
+  projection = ctr.computeProjection('+foo', ['id']) as AggregateBuild
+  t.same(projection.toArray(), [{ $project: { foo: 1, id: 1 } }])
+
+  projection = ctr.computeProjection('-foo,-id', ['id']) as AggregateBuild
+  t.same(projection.toArray(), [{ $project: { foo: 0 } }])
+})
+
+t.test('compute with text search', async function (t) {
+  t.plan(2)
+
+  const db = await build(t)
+  const ctr = new Controller(db.collection('computeText'), { logger: { level: 'silent' }, searchFields: ['foo', 'bar'], searchMode: 'text' })
+
+  let query = ctr.computePipeline({ search: 'foo bar', sort: '-textScore' })
+  t.same(query.toArray(), [{ $match: { $and: [{ $text: { $search: 'foo bar' } }] } }, { $addFields: { textScore: { $meta: 'textScore' } } }, { $sort: { textScore: -1 } }])
+
+  // object search fallback to regex
+  query = ctr.computePipeline({ search: { $regex: 'foo' } })
+  t.same(query.toArray(), [{ $match: { $and: [{ $or: [{ foo: { $regex: 'foo' } }, { bar: { $regex: 'foo' } }] }] } }])
+})
+
+t.test('compute with facets', async function (t) {
+  t.plan(2)
+
+  const db = await build(t)
+  const ctr = new Controller(db.collection('computeFacets'), { logger: { level: 'silent' }, filterableFields: ['status', 'price'] })
+
+  const query = ctr.computeFacetPipeline({ filter: 'status:active', pageSize: 10, facets: ['status', { field: 'price', boundaries: [0, 100, 200] }] })
+  t.same(query.toArray(), [
+    { $match: { $and: [{ status: 'active' }] } },
+    {
+      $facet: {
+        data: [{ $limit: 10 }],
+        facet_0: [{ $unwind: '$status' }, { $sortByCount: '$status' }, { $project: { _id: 0, value: '$_id', count: 1 } }],
+        facet_1: [
+          { $unwind: '$price' },
+          { $match: { price: { $gte: 0, $lt: 200 } } },
+          { $bucket: { groupBy: '$price', boundaries: [0, 100, 200] } },
+          { $project: { _id: 0, value: '$_id', count: 1 } }
+        ]
+      }
+    }
+  ])
+
+  t.throws(() => ctr.computeFacetPipeline({ facets: ['tags'] }), new QueryPolicyError('filter', 'tags'))
+})
+
+t.test('compute with tenant', async function (t) {
+  t.plan(3)
+
+  const db = await build(t)
+  const ctr = new Controller(db.collection('computeTenant'), { logger: { level: 'silent' }, tenantKey: 'tenantId', skipIndex: true })
+
+  const query = ctr.forTenant('foo').computePipeline({ filter: 'bar:1' })
+  t.same(query.toArray(), [{ $match: { $and: [{ bar: 1 }, { tenantId: 'foo' }] } }])
+
+  t.throws(() => ctr.computePipeline({}), new Error('tenant is not resolved'))
+
+  let tenantId = 'bar'
+  const resolved = new Controller(db.collection('computeTenant'), { logger: { level: 'silent' }, tenantKey: 'tenantId', tenantResolver: () => tenantId, skipIndex: true })
+  tenantId = 'baz'
+  t.same(resolved.computePipeline({}).toArray(), [{ $match: { $and: [{ tenantId: 'baz' }] } }])
+})
+
+t.test('compute with populate', async function (t) {
+  t.plan(6)
+
+  const db = await build(t)
+  const companies = new Controller(db.collection('computeCompanies'), { logger: { level: 'silent' }, skipIndex: true })
+  const users = new Controller(db.collection('computeUsers'), { logger: { level: 'silent' }, softDelete: true, skipIndex: true, relations: { company: { controller: companies, localField: 'companyId', single: true } } })
+  const ctr = new Controller(db.collection('computePosts'), { logger: { level: 'silent' }, skipIndex: true, relations: { author: { controller: () => users, localField: 'authorId', single: true } } })
+
+  const match = (foreignField: string): any => ({ $expr: { $in: [`$${foreignField}`, { $cond: [{ $isArray: { $ifNull: ['$$value', []] } }, { $ifNull: ['$$value', []] }, [{ $ifNull: ['$$value', []] }]] }] } })
+
+  const query = ctr.computePipeline({ filter: 'title:foo,author.name:bar', populate: [{ path: 'author.company', fields: '+name' }] })
+  t.same(query.toArray(), [
+    { $match: { $and: [{ title: 'foo' }] } },
+    {
+      $lookup: {
+        from: 'computeUsers',
+        let: { value: '$authorId' },
+        pipeline: [
+          { $match: { $and: [match('id'), { deletedAt: null }] } },
+          {
+            $lookup: {
+              from: 'computeCompanies',
+              let: { value: '$companyId' },
+              pipeline: [{ $match: { $and: [match('id')] } }, { $project: { name: 1 } }],
+              as: 'company'
+            }
+          },
+          { $unwind: { path: '$company', preserveNullAndEmptyArrays: true } }
+        ],
+        as: 'author'
+      }
+    },
+    { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } },
+    { $match: { $and: [{ 'author.name': 'bar' }] } }
+  ])
+
+  // lookup is placed after pagination when the populated fields are not used
+  const lookup = {
+    $lookup: {
+      from: 'computeUsers',
+      let: { value: '$authorId' },
+      pipeline: [{ $match: { $and: [match('id'), { deletedAt: null }] } }],
+      as: 'author'
+    }
+  }
+  const unwind = { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } }
+  t.same(ctr.computePipeline({ filter: 'title:foo', sort: '-title', page: 2, pageSize: 10, populate: 'author' }).toArray(), [
+    { $match: { $and: [{ title: 'foo' }] } },
+    { $sort: { title: -1 } },
+    { $limit: 20 },
+    { $skip: 10 },
+    lookup,
+    unwind
+  ])
+  t.same(ctr.computePipeline({ sort: '-author.name', page: 2, pageSize: 10, populate: 'author' }).toArray(), [
+    { $match: {} },
+    lookup,
+    unwind,
+    { $sort: { 'author.name': -1 } },
+    { $limit: 20 },
+    { $skip: 10 }
+  ])
+  t.same(ctr.computeTotalPipeline({ page: 1, pageSize: 10, populate: 'author' }).toArray(), [
+    { $match: {} },
+    { $facet: { data: [{ $limit: 10 }, { $skip: 0 }, lookup, unwind], total: [{ $count: 'total' }] } }
+  ])
+
+  t.throws(() => ctr.computePipeline({ populate: 'foo' }), new Error('relation "foo" is not declared'))
+  t.throws(() => ctr.computePipeline({ populate: 'author.foo' }), new Error('relation "foo" is not declared'))
+})
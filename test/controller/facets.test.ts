@@ -0,0 +1,30 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('searchWithFacets', async function (t) {
+  t.plan(5)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('searchWithFacets'), { logger: { level: 'silent' } })
+  await ctr.insertMany([
+    { status: 'active', tags: ['a', 'b'], price: 50, createdAt: new Date('2020-01-15') },
+    { status: 'active', tags: ['a'], price: 150, createdAt: new Date('2020-02-15') },
+    { status: 'closed', tags: [], price: 250, createdAt: new Date('2020-02-20') }
+  ])
+
+  const result = await ctr.searchWithFacets({
+    filter: 'price<200',
+    pageSize: 1,
+    facets: [
+      'status',
+      'tags',
+      { field: 'price', boundaries: [0, 100, 200] },
+      { field: 'createdAt', boundaries: [new Date('2020-01-01'), new Date('2020-02-01'), new Date('2020-03-01')], default: 'other' }
+    ]
+  })
+  t.equal(result.data.length, 1)
+  t.same(result.facets.status, [{ value: 'active', count: 2 }])
+  t.same(result.facets.tags, [{ value: 'a', count: 2 }, { value: 'b', count: 1 }])
+  t.same(result.facets.price, [{ value: 0, count: 1 }, { value: 100, count: 1 }])
+  t.same(result.facets.createdAt, [{ value: new Date('2020-01-01'), count: 1 }, { value: new Date('2020-02-01'), count: 1 }])
+})
@@ -0,0 +1,47 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('field names', async function (t) {
+  t.plan(10)
+  const db = await build(t)
+  const collection = db.collection('fieldNames')
+
+  const ctr = new Controller(collection, {
+    logger: { level: 'silent' },
+    idKey: 'uuid',
+    createdAtKey: 'created_at',
+    updatedAtKey: 'modified_at'
+  })
+  await ctr.ready()
+
+  const indexes = await collection.indexes()
+  t.ok(indexes.find((index) => index.name === 'uuid_1' && index.unique === true))
+
+  const inserted = await ctr.insertMany([{ foo: 'bar' }, { foo: 'baz' }, { foo: 'qux' }])
+  t.same(inserted.map((doc) => doc.foo), ['bar', 'baz', 'qux'])
+  t.equal(typeof inserted[0].uuid, 'string')
+  t.equal(inserted[0].created_at instanceof Date, true)
+  t.equal('id' in inserted[0], false)
+
+  const found = await ctr.findById(inserted[0].uuid)
+  t.equal(found?.foo, 'bar')
+
+  const updated = await ctr.updateMany({ foo: { $in: ['bar', 'baz'] } }, { foo: 'quux' })
+  t.equal(updated.length, 2)
+  t.equal(updated[0].foo, 'quux')
+
+  const deleted = await ctr.deleteById(inserted[2].uuid)
+  t.equal(deleted?.foo, 'qux')
+})
+
+t.test('field names - disable timestamps', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+
+  const ctr = new Controller(db.collection('fieldNamesNoTimestamp'), { logger: { level: 'silent' }, createdAtKey: false, updatedAtKey: false })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+  t.same(Object.keys(inserted ?? {}).sort(), ['_id', 'foo', 'id'])
+  const updated = await ctr.updateById(inserted?.id, { $inc: { count: 1 } })
+  t.same(Object.keys(updated ?? {}).sort(), ['_id', 'count', 'foo', 'id'])
+})
@@ -0,0 +1,30 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('fields', async function (t) {
+  t.plan(8)
+  const db = await build(t)
+  const collection = db.collection('fields')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' } })
+  const inserted = await ctr.insertOne({ foo: 'bar', bar: ['baz'] })
+
+  const [searched] = await ctr.search({ fields: '-bar' })
+  t.equal('foo' in searched, true)
+  t.equal('bar' in searched, false)
+
+  const [found] = await ctr.find({}, { fields: 'foo' })
+  t.equal('foo' in found, true)
+  t.equal('bar' in found, false)
+
+  const one = await ctr.findOne({}, { fields: '-foo' })
+  t.equal('foo' in (one ?? {}), false)
+  t.equal('bar' in (one ?? {}), true)
+
+  const byId = await ctr.findById(inserted?.id, { fields: 'bar,-_id' })
+  t.same(byId, { bar: ['baz'] })
+
+  const total = await ctr.searchWithTotal({ fields: 'foo,-_id' })
+  t.same(total.data, [{ foo: 'bar' }])
+})
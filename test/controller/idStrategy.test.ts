@@ -0,0 +1,22 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { ValidationError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+t.test('idStrategy', async function (t) {
+  t.plan(5)
+  const db = await build(t)
+
+  const ulid = new Controller(db.collection('idStrategyULID'), { logger: { level: 'silent' }, idStrategy: 'ulid' })
+  const inserted = await ulid.insertMany([{ foo: 'bar' }, { foo: 'baz' }])
+  t.match(inserted[0].id, /^[0-9A-Z]{26}$/)
+  t.same(await ulid.findById(inserted[0].id), inserted[0])
+  await t.rejects(ulid.findById('foo'), new ValidationError([{ path: 'id', message: 'must be valid id' }]))
+
+  const preserve = new Controller(db.collection('idStrategyPreserve'), { logger: { level: 'silent' }, idStrategy: 'preserve-if-present' })
+  t.equal((await preserve.insertOne({ id: 'foo' }))?.id, 'foo')
+
+  let count = 0
+  const custom = new Controller(db.collection('idStrategyCustom'), { logger: { level: 'silent' }, idStrategy: () => `foo-${++count}` })
+  t.equal((await custom.insertOne({ foo: 'bar' }))?.id, 'foo-1')
+})
@@ -0,0 +1,31 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('syncIndexes', async function (t) {
+  t.plan(8)
+  const db = await build(t)
+  const collection = db.collection('syncIndexes')
+  await collection.createIndex({ stale: 1 })
+  await collection.createIndex({ foo: 1 })
+
+  const ctr = new Controller(collection, {
+    logger: { level: 'silent' },
+    skipIndex: true,
+    indexes: [{ indexSpec: { foo: 1 }, options: { unique: true } }, { indexSpec: { bar: 1 } }]
+  })
+
+  let report = await ctr.syncIndexes()
+  t.same(report.created, ['id_1', 'bar_1'])
+  t.same(report.stale, ['stale_1'])
+  t.same(report.dropped, [])
+  t.same(report.changed, [{ name: 'foo_1', option: 'unique', expected: true, actual: false }])
+
+  report = await ctr.syncIndexes({ dropStale: true, rebuildChanged: true })
+  t.same(report.dropped, ['stale_1'])
+  t.same(report.rebuilt, ['foo_1'])
+
+  report = await ctr.syncIndexes()
+  t.same(report.unchanged, ['id_1', 'foo_1', 'bar_1'])
+  t.same(report.stale, [])
+})
@@ -0,0 +1,130 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { ForbiddenError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+interface Actor {
+  id: string
+  role: 'admin' | 'editor' | 'guest'
+}
+
+t.test('policy', async function (t) {
+  t.plan(11)
+  const db = await build(t)
+  const collection = db.collection('policy')
+
+  const ctr = new Controller(collection, {
+    logger: { level: 'silent' },
+    policies: {
+      read (actor: Actor | undefined) {
+        if (actor === undefined) return false
+        return actor.role === 'admin' ? true : { authorId: actor.id }
+      },
+      insert (actor: Actor | undefined) {
+        if (actor?.role === 'guest') return false
+        return actor?.role === 'admin' ? true : { authorId: actor?.id }
+      },
+      update (actor: Actor | undefined) {
+        // editor can only update own draft
+        return actor?.role === 'admin' ? true : { authorId: actor?.id, status: 'draft' }
+      },
+      delete (actor: Actor | undefined) {
+        return actor?.role === 'admin'
+      }
+    }
+  })
+  await ctr.ready()
+
+  const admin = ctr.forActor({ id: 'admin', role: 'admin' })
+  const foo = ctr.forActor({ id: 'foo', role: 'editor' })
+  const guest = ctr.forActor({ id: 'guest', role: 'guest' })
+
+  await admin.insertMany([
+    { authorId: 'foo', status: 'draft' },
+    { authorId: 'foo', status: 'published' },
+    { authorId: 'bar', status: 'draft' }
+  ])
+  await foo.insertOne({ authorId: 'foo', status: 'draft' })
+  await t.rejects(foo.insertOne({ authorId: 'bar', status: 'draft' }), new ForbiddenError('insert'))
+  await t.rejects(guest.insertOne({ authorId: 'guest' }), new ForbiddenError('insert'))
+
+  t.equal((await admin.find()).length, 4)
+  t.equal((await foo.find()).length, 3)
+  t.equal(await foo.count(), 3)
+  t.equal((await foo.search({ filter: 'authorId:bar' })).length, 0)
+  await t.rejects(ctr.find(), new ForbiddenError('read'))
+
+  const updated = await foo.updateMany({}, { value: 1 })
+  t.equal(updated.length, 2)
+
+  let emitted = false
+  ctr.on('pre-delete', function () {
+    emitted = true
+  })
+  await t.rejects(foo.deleteMany({}), new ForbiddenError('delete'))
+  t.equal(emitted, false)
+
+  await admin.deleteMany({})
+  t.equal(await collection.countDocuments(), 0)
+})
+
+t.test('policy with upsert', async function (t) {
+  t.plan(3)
+  const db = await build(t)
+  const collection = db.collection('policyUpsert')
+
+  const ctr = new Controller(collection, {
+    logger: { level: 'silent' },
+    policies: {
+      insert (actor: Actor | undefined) {
+        return actor?.role === 'guest' ? false : { authorId: actor?.id }
+      },
+      update (actor: Actor | undefined) {
+        return { authorId: actor?.id }
+      }
+    }
+  })
+  await ctr.ready()
+
+  const foo = ctr.forActor({ id: 'foo', role: 'editor' })
+  const guest = ctr.forActor({ id: 'guest', role: 'guest' })
+
+  // id of the filter is kept when policy filter is merged
+  const created = await foo.upsertById('wanted-id', { authorId: 'foo', value: 1 })
+  t.equal(created.document?.id, 'wanted-id')
+
+  // insert policy is not evaluated when the document exists
+  await collection.insertOne({ id: 'guest-id', authorId: 'guest' })
+  const updated = await guest.upsertById('guest-id', { value: 2 })
+  t.equal(updated.created, false)
+  await t.rejects(guest.upsertById('new-id', { authorId: 'guest' }), new ForbiddenError('insert'))
+})
+
+t.test('policy with populate', async function (t) {
+  t.plan(4)
+  const db = await build(t)
+
+  const comments = new Controller(db.collection('policyPopulateComments'), {
+    logger: { level: 'silent' },
+    policies: {
+      read (actor: Actor | undefined) {
+        return actor?.role === 'admin' ? true : { hidden: { $ne: true } }
+      }
+    }
+  })
+  const posts = new Controller(db.collection('policyPopulatePosts'), {
+    logger: { level: 'silent' },
+    relations: { comments: { controller: comments, localField: 'id', foreignField: 'postId' } }
+  })
+  await Promise.all([comments.ready(), posts.ready()])
+
+  const post = await posts.insertOne({ title: 'foo' })
+  await comments.insertMany([{ postId: post?.id, text: 'visible' }, { postId: post?.id, text: 'hidden', hidden: true }])
+
+  const admin = posts.forActor({ id: 'admin', role: 'admin' })
+  const guest = posts.forActor({ id: 'guest', role: 'guest' })
+  t.equal((await admin.findById(post?.id, { populate: 'comments' }))?.comments.length, 2)
+  t.same((await guest.findById(post?.id, { populate: 'comments' }))?.comments.map((comment: any) => comment.text), ['visible'])
+  t.same((await guest.search<any>({ populate: 'comments', page: 1, pageSize: 1 }))[0].comments.map((comment: any) => comment.text), ['visible'])
+  t.same((await guest.searchWithTotal<any>({ populate: 'comments' })).data[0].comments.map((comment: any) => comment.text), ['visible'])
+})
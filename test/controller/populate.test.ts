@@ -0,0 +1,57 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('populate', async function (t) {
+  t.plan(10)
+  const db = await build(t)
+
+  const companies = new Controller(db.collection('populateCompanies'), { logger: { level: 'silent' } })
+  const users: Controller = new Controller(db.collection('populateUsers'), {
+    logger: { level: 'silent' },
+    relations: {
+      company: { controller: companies, localField: 'companyId', single: true },
+      posts: { controller: () => posts, localField: 'id', foreignField: 'authorId' }
+    }
+  })
+  const tags = new Controller(db.collection('populateTags'), { logger: { level: 'silent' } })
+  const posts: Controller = new Controller(db.collection('populatePosts'), {
+    logger: { level: 'silent' },
+    relations: {
+      author: { controller: users, localField: 'authorId', single: true },
+      tags: { controller: tags, localField: 'tagIds' }
+    }
+  })
+  await Promise.all([companies.ready(), users.ready(), tags.ready(), posts.ready()])
+
+  const company = await companies.insertOne({ name: 'foo', secret: 'baz' })
+  const [alice, bob] = await users.insertMany([{ name: 'alice', companyId: company?.id }, { name: 'bob' }])
+  const [a, b] = await tags.insertMany([{ name: 'a' }, { name: 'b' }])
+  const [post] = await posts.insertMany([
+    { title: 'hello', authorId: alice.id, tagIds: [a.id, b.id] },
+    { title: 'world', authorId: bob.id, tagIds: [] }
+  ])
+
+  const found = await posts.findById(post.id, { populate: ['author.company', 'tags'] })
+  t.equal(found?.author.name, 'alice')
+  t.equal(found?.author.company.name, 'foo')
+  t.same(found?.tags.map((tag: any) => tag.name), ['a', 'b'])
+
+  const projected = await posts.findById(post.id, { populate: { path: 'author.company', fields: '+name' } })
+  t.same(Object.keys(projected?.author.company), ['_id', 'name'])
+
+  const searched = await posts.search<any>({ filter: 'author.name:bob', populate: 'author', sort: '+title' })
+  t.same(searched.map((doc) => doc.title), ['world'])
+  t.equal(await posts.count({ filter: 'author.name:bob', populate: 'author' }), 1)
+
+  const listed = await posts.find({}, { populate: 'author', sort: { title: 1 }, limit: 1 })
+  t.equal(listed.length, 1)
+  t.equal(listed[0].author.name, 'alice')
+
+  const reversed = await users.find({ name: 'alice' }, { populate: 'posts' })
+  t.same(reversed[0].posts.map((doc: any) => doc.title), ['hello'])
+
+  // missing local field is not populated
+  const user = await users.findById(bob.id, { populate: 'company' })
+  t.equal(user?.company, undefined)
+})
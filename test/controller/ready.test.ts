@@ -0,0 +1,40 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('ready', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+  const collection = db.collection('ready')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, indexes: [{ indexSpec: { foo: 1 }, options: { unique: true } }] })
+  await ctr.ready()
+  const indexes = await collection.listIndexes().toArray()
+  t.same(indexes.map((o) => o.name), ['_id_', 'id_1', 'foo_1'])
+
+  await ctr.resetDatabase()
+  const recreated = await collection.listIndexes().toArray()
+  t.same(recreated.map((o) => o.name), ['_id_', 'id_1', 'foo_1'])
+})
+
+t.test('ready - rejected', async function (t) {
+  t.plan(1)
+  const db = await build(t)
+  const collection = db.collection('readyRejected')
+  await collection.insertMany([{ foo: 'bar' }, { foo: 'bar' }])
+
+  // duplicate key prevent unique index creation
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, indexes: [{ indexSpec: { foo: 1 }, options: { unique: true } }] })
+  await t.rejects(ctr.ready())
+})
+
+t.test('ready - waitReady', async function (t) {
+  t.plan(1)
+  const db = await build(t)
+  const collection = db.collection('readyWait')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, waitReady: true, indexes: [{ indexSpec: { foo: 1 }, options: { unique: true } }] })
+  await ctr.insertOne({ foo: 'bar' })
+  // unique index must be exist before the first insert
+  await t.rejects(ctr.insertOne({ foo: 'bar' }))
+})
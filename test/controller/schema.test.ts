@@ -0,0 +1,55 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { ValidationError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+const schema = {
+  bsonType: 'object' as const,
+  required: ['foo'],
+  properties: {
+    foo: { bsonType: 'string' as const }
+  }
+}
+
+t.test('schema', async function (t) {
+  t.plan(5)
+  const db = await build(t)
+  const collection = db.collection('schema')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, schema })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+  t.equal(inserted?.foo, 'bar')
+
+  try {
+    await ctr.insertOne({ bar: 'baz' })
+  } catch (err: any) {
+    t.equal(err instanceof ValidationError, true)
+    t.same(err.errors, [{ path: 'foo', message: 'is required' }])
+  }
+
+  try {
+    await ctr.updateById(inserted?.id, { foo: 1 })
+  } catch (err: any) {
+    t.same(err.errors, [{ path: 'foo', message: 'must be string' }])
+  }
+
+  const updated = await ctr.updateById(inserted?.id, { bar: 'baz' })
+  t.equal(updated?.bar, 'baz')
+})
+
+t.test('schemaValidator', async function (t) {
+  t.plan(3)
+  const db = await build(t)
+  const collection = db.collection('schemaValidator')
+
+  t.throws(() => new Controller(collection, { logger: { level: 'silent' }, schema, schemaValidator: true }), 'db expected to be an object when schemaValidator is enabled')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, schema, schemaValidator: true, db })
+  await ctr.ready()
+  const options = await collection.options()
+  t.same(options.validator, { $jsonSchema: schema })
+
+  const other = new Controller(db.collection('schemaValidatorManual'), { logger: { level: 'silent' }, schema })
+  await other.installSchemaValidator(db)
+  t.same((await db.collection('schemaValidatorManual').options()).validator, { $jsonSchema: schema })
+})
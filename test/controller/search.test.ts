@@ -43,3 +43,51 @@ t.test('count', async function (t) {
   result = await ctr.count({ filter: { $exist: { foo: true } } })
   t.equal(result, 3)
 })
+
+t.test('searchWithCursor', async function (t) {
+  t.plan(9)
+  const db = await build(t)
+  const collection = db.collection('searchWithCursor')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, postMatchKeywords: ['bar'] })
+  await ctr.insertMany([{ foo: 1, bar: true }, { foo: 2, bar: true }, { foo: 3, bar: false }, { foo: 4, bar: true }, { foo: 5, bar: true }])
+
+  const first = await ctr.searchWithCursor({ sort: '-foo', filter: 'bar:true', pageSize: 2 })
+  t.same(first.data.map((o) => o.foo), [5, 4])
+  t.equal(first.prevCursor, null)
+  t.ok(first.nextCursor)
+
+  const second = await ctr.searchWithCursor({ sort: '-foo', filter: 'bar:true', pageSize: 2, cursor: first.nextCursor as string })
+  t.same(second.data.map((o) => o.foo), [2, 1])
+  t.equal(second.nextCursor, null)
+  t.ok(second.prevCursor)
+
+  const previous = await ctr.searchWithCursor({ sort: '-foo', filter: 'bar:true', pageSize: 2, cursor: second.prevCursor as string })
+  t.same(previous.data.map((o) => o.foo), [5, 4])
+  t.equal(previous.prevCursor, null)
+
+  await t.rejects(ctr.searchWithCursor({ sort: 'foo', cursor: first.nextCursor as string }))
+})
+
+t.test('searchWithTotal', async function (t) {
+  t.plan(10)
+  const db = await build(t)
+  const collection = db.collection('searchWithTotal')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, searchFields: ['foo'] })
+  await ctr.insertMany([{ foo: 'bar' }, { foo: 'baz' }, { foo: 'foo' }])
+
+  let result = await ctr.searchWithTotal({ search: 'ba', sort: '-foo', page: 1, pageSize: 1 })
+  t.same(result.data.map((o) => o.foo), ['baz'])
+  t.equal(result.total, 2)
+  t.equal(result.page, 1)
+  t.equal(result.pageSize, 1)
+  t.equal(result.totalPages, 2)
+
+  result = await ctr.searchWithTotal()
+  t.equal(result.data.length, 3)
+  t.equal(result.total, 3)
+  t.equal(result.page, 1)
+  t.equal(result.pageSize, 3)
+  t.equal(result.totalPages, 1)
+})
@@ -0,0 +1,67 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('softDelete', async function (t) {
+  t.plan(14)
+  const db = await build(t)
+  const collection = db.collection('softDelete')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, softDelete: true })
+  const inserted = await ctr.insertMany([{ foo: 'bar' }, { foo: 'bar' }, { foo: 'baz' }])
+
+  const deleted = await ctr.deleteById(inserted[0].id)
+  t.ok(deleted)
+  t.equal(deleted?.deletedAt instanceof Date, true)
+
+  t.equal(await collection.countDocuments(), 3)
+  t.equal((await ctr.find()).length, 2)
+  t.equal(await ctr.findById(inserted[0].id), null)
+  t.equal((await ctr.find({}, { includeDeleted: true })).length, 3)
+  t.equal((await ctr.find({}, { onlyDeleted: true })).length, 1)
+  t.equal(await ctr.count(), 2)
+  t.equal((await ctr.search({ onlyDeleted: true })).length, 1)
+  t.equal(await ctr.updateById(inserted[0].id, { foo: 'foo' }), null)
+
+  const restored = await ctr.restoreById(inserted[0].id)
+  t.equal('deletedAt' in (restored ?? {}), false)
+
+  await ctr.deleteMany({ foo: 'bar' })
+  t.equal((await ctr.find()).length, 1)
+
+  const purged = await ctr.purge()
+  t.equal(purged.length, 2)
+  t.equal(await collection.countDocuments(), 1)
+})
+
+t.test('softDelete - events', async function (t) {
+  t.plan(4)
+  const db = await build(t)
+  const collection = db.collection('softDeleteEvents')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, softDelete: true })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+  await ctr.deleteById(inserted?.id)
+
+  ctr.on('pre-restore', function () { t.pass() })
+  ctr.on('post-restore', function () { t.pass() })
+  ctr.on('pre-purge', function () { t.pass() })
+  ctr.on('post-purge', function () { t.pass() })
+
+  await ctr.restoreMany({ foo: 'bar' })
+  await ctr.purge()
+})
+
+t.test('purge and restore without softDelete', async function (t) {
+  t.plan(4)
+  const db = await build(t)
+  const collection = db.collection('softDeleteDisabled')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' } })
+  const inserted = await ctr.insertOne({ foo: 'bar' })
+
+  await t.rejects(ctr.purge(), new Error('softDelete is not enabled'))
+  await t.rejects(ctr.restoreMany(), new Error('softDelete is not enabled'))
+  await t.rejects(ctr.restoreById(inserted?.id), new Error('softDelete is not enabled'))
+  t.equal(await collection.countDocuments(), 1)
+})
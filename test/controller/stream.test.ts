@@ -0,0 +1,52 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('searchStream', async function (t) {
+  t.plan(4)
+  const db = await build(t)
+  const collection = db.collection('searchStream')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, searchFields: ['foo'] })
+  await ctr.insertMany([{ foo: 'bar' }, { foo: 'baz' }, { foo: 'foo' }])
+  const counts: number[] = []
+  ctr.on('post-search-stream', function (count) { counts.push(count) })
+
+  const result: any[] = []
+  for await (const doc of ctr.searchStream({ search: 'ba' }, { batchSize: 1 })) {
+    result.push(doc)
+  }
+  t.equal(result.length, 2)
+
+  // early break should close the cursor
+  let count = 0
+  for await (const doc of ctr.searchStream()) {
+    count++
+    if ('id' in doc) break
+  }
+  t.equal(count, 1)
+  // post event is emitted with the count so far after early break
+  t.same(counts, [2, 1])
+})
+
+t.test('findStream', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+  const collection = db.collection('findStream')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' } })
+  await ctr.insertMany([{ foo: 'bar' }, { foo: 'baz' }, { foo: 'foo' }])
+  const counts: number[] = []
+  ctr.on('post-find-stream', function (count) { counts.push(count) })
+
+  const result: any[] = []
+  for await (const doc of ctr.findStream({}, { batchSize: 1 })) {
+    result.push(doc)
+  }
+  t.equal(result.length, 3)
+
+  for await (const doc of ctr.findStream({}, { batchSize: 1 })) {
+    if ('id' in doc) break
+  }
+  t.same(counts, [3, 1])
+})
@@ -0,0 +1,42 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('tenant', async function (t) {
+  t.plan(13)
+  const db = await build(t)
+  const collection = db.collection('tenant')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, tenantKey: 'tenantId' })
+  await ctr.ready()
+  const indexes = await collection.indexes()
+  t.ok(indexes.find((index) => index.name === 'tenantId_1_id_1' && index.unique === true))
+
+  const foo = ctr.forTenant('foo')
+  const bar = ctr.forTenant('bar')
+  const inserted = await foo.insertMany([{ name: 'a' }, { name: 'b' }])
+  await bar.insertOne({ name: 'a' })
+  t.equal(inserted[0].tenantId, 'foo')
+
+  t.equal((await foo.find()).length, 2)
+  t.equal((await bar.find()).length, 1)
+  t.equal(await foo.count(), 2)
+  t.equal((await bar.search({ filter: 'name:a' })).length, 1)
+  t.equal((await foo.findById(inserted[0].id))?.name, 'a')
+  t.equal(await bar.findById(inserted[0].id), null)
+
+  await bar.updateMany({}, { name: 'c' })
+  t.same((await foo.find()).map((doc) => doc.name), ['a', 'b'])
+
+  // document can not be moved to another tenant
+  await foo.updateById(inserted[0].id, { tenantId: 'bar', name: 'a' })
+  t.equal((await foo.findById(inserted[0].id))?.tenantId, 'foo')
+
+  await bar.deleteMany({})
+  t.equal(await collection.countDocuments(), 2)
+
+  const upserted = await bar.upsertOne({ name: 'd' }, { value: 1 })
+  t.equal(upserted.document?.tenantId, 'bar')
+
+  await t.rejects(ctr.find(), new Error('tenant is not resolved'))
+})
@@ -0,0 +1,40 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+t.test('text search', async function (t) {
+  t.plan(6)
+  const db = await build(t)
+  const collection = db.collection('textSearch')
+
+  const ctr = new Controller(collection, {
+    logger: { level: 'silent' },
+    searchFields: ['title', 'content'],
+    searchMode: 'text',
+    searchWeights: { title: 10, content: 1 }
+  })
+  await ctr.ready()
+
+  const indexes = await collection.indexes()
+  const index = indexes.find((index) => index.name === 'title_text_content_text')
+  t.ok(index)
+  t.same(index?.weights, { title: 10, content: 1 })
+
+  await ctr.insertMany([
+    { title: 'mongodb', content: 'database' },
+    { title: 'database', content: 'mongodb' },
+    { title: 'other', content: 'other' }
+  ])
+
+  const result = await ctr.search({ search: 'mongodb', sort: '-textScore' })
+  t.equal(result.length, 2)
+  t.equal(result[0].title, 'mongodb')
+  t.equal(result[0].textScore > result[1].textScore, true)
+  t.equal(await ctr.count({ search: 'mongodb' }), 2)
+})
+
+t.test('text search without searchFields', async function (t) {
+  t.plan(1)
+  const db = await build(t)
+  t.throws(() => new Controller(db.collection('textSearchEmpty'), { logger: { level: 'silent' }, searchMode: 'text' }), new Error('searchFields expected to be non-empty when searchMode is "text"'))
+})
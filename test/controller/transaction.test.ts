@@ -0,0 +1,33 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { buildReplSet } from '../utils/factory'
+
+t.test('withTransaction', async function (t) {
+  t.plan(5)
+  const { db, client } = await buildReplSet(t)
+  await db.createCollection('transactionFoo')
+  await db.createCollection('transactionBar')
+
+  const foo = new Controller(db.collection('transactionFoo'), { logger: { level: 'silent' } })
+  const bar = new Controller(db.collection('transactionBar'), { logger: { level: 'silent' } })
+
+  let emitted = 0
+  foo.on('post-insert', function () { emitted++ })
+  bar.on('post-insert', function () { emitted++ })
+
+  const result = await Controller.withTransaction(client, async function () {
+    await foo.insertOne({ foo: 'bar' })
+    await bar.insertOne({ bar: 'baz' })
+    // post events are deferred until commit
+    t.equal(emitted, 0)
+    return 'done'
+  })
+  t.equal(result, 'done')
+  t.equal(emitted, 2)
+
+  await t.rejects(Controller.withTransaction(client, async function () {
+    await foo.insertOne({ foo: 'baz' })
+    throw new Error('rollback')
+  }))
+  t.same({ count: await foo.count(), emitted }, { count: 1, emitted: 2 })
+})
@@ -0,0 +1,65 @@
+import t from 'tap'
+import { PassThrough, Readable } from 'stream'
+import { Controller, ExportOptions } from '../../lib/controller/default'
+import { build } from '../utils/factory'
+
+async function exportText (ctr: Controller, options: ExportOptions): Promise<string> {
+  const stream = new PassThrough()
+  let text = ''
+  stream.on('data', (chunk) => { text += String(chunk) })
+  await ctr.exportTo(stream, options)
+  return text
+}
+
+t.test('transfer', async function (t) {
+  t.plan(15)
+  const db = await build(t)
+  const date = new Date('2022-01-01T00:00:00.000Z')
+
+  const source = new Controller(db.collection('transferSource'), { logger: { level: 'silent' } })
+  await source.insertMany([{ name: 'foo', value: 1, date }, { name: 'bar', value: 2, date }])
+
+  let progress = 0
+  source.on('export-progress', function () {
+    progress++
+  })
+  const ndjson = await exportText(source, { format: 'ndjson', filter: 'value:1', batchSize: 1 })
+  t.equal(ndjson.split('\n').length, 2)
+  t.equal(progress, 1)
+
+  const target = new Controller(db.collection('transferTarget'), {
+    logger: { level: 'silent' },
+    schema: { type: 'object', properties: { value: { type: 'number' } } }
+  })
+  const json = await exportText(source, { format: 'json', sort: '+value' })
+  const imported = await target.importFrom(Readable.from([json]), { format: 'json' })
+  t.same(imported, { processed: 2, insertedCount: 2, updatedCount: 0, errors: [] })
+  // date is lossless
+  t.same((await target.find({}, { sort: { value: 1 } })).map((doc) => doc.date), [date, date])
+  // id and timestamps are kept
+  const pick = (doc: any): unknown[] => [doc.id, doc.createdAt, doc.updatedAt]
+  const exported = (await source.find({}, { sort: { value: 1 } })).map(pick)
+  t.same((await target.find({}, { sort: { value: 1 } })).map(pick), exported)
+
+  const columns = ['id', { field: 'name', header: 'Name' }, 'value', 'date', 'createdAt', 'updatedAt']
+  const csv = await exportText(source, { format: 'csv', sort: '+value', columns })
+  t.equal(csv.split('\n')[0], 'id,Name,value,date,createdAt,updatedAt')
+
+  const upsertTarget = new Controller(db.collection('transferUpsertTarget'), { logger: { level: 'silent' } })
+  const upserted = await upsertTarget.importFrom(Readable.from([csv]), { format: 'csv', mode: 'upsert', columns })
+  t.equal(upserted.insertedCount, 2)
+  t.equal(upserted.updatedCount, 0)
+  t.same((await upsertTarget.find({}, { sort: { value: 1 } })).map(pick), exported)
+  const again = await upsertTarget.importFrom(Readable.from([csv]), { format: 'csv', mode: 'upsert', columns })
+  t.equal(again.updatedCount, 2)
+  t.same((await upsertTarget.find({}, { sort: { value: 1 } })).map(pick), exported)
+
+  let batches = 0
+  target.on('import-progress', function () {
+    batches++
+  })
+  const failed = await target.importFrom(Readable.from(['{"value":1}\n{"value":"bad"}\nnot json\n{"value":2}\n']), { format: 'ndjson', batchSize: 2 })
+  t.equal(failed.insertedCount, 2)
+  t.same(failed.errors.map((error) => error.row), [2, 3])
+  t.equal(batches, 2)
+})
@@ -0,0 +1,80 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { SoftDeletedError, ValidationError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+t.test('upsertOne', async function (t) {
+  t.plan(10)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('upsertOne'), { logger: { level: 'silent' } })
+
+  ctr.once('post-insert', function () { t.pass() })
+  let result = await ctr.upsertOne({ foo: 'bar' }, { bar: 'baz' })
+  t.equal(result.created, true)
+  t.equal(typeof result.document?.id, 'string')
+  t.equal(result.document?.foo, 'bar')
+  t.equal(result.document?.createdAt.getTime(), result.document?.updatedAt.getTime())
+  t.same(await ctr.findById(result.document?.id), result.document)
+
+  const { id, createdAt } = result.document ?? {}
+  ctr.once('post-update', function () { t.pass() })
+  result = await ctr.upsertOne({ foo: 'bar' }, { $set: { bar: 'qux' } })
+  t.equal(result.created, false)
+  t.equal(result.document?.id, id)
+  t.same(result.document?.createdAt, createdAt)
+  t.equal(result.document?.bar, 'qux')
+})
+
+t.test('upsertById', async function (t) {
+  t.plan(5)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('upsertById'), { logger: { level: 'silent' }, versionKey: 'version' })
+
+  let result = await ctr.upsertById('foo', { foo: 'bar' })
+  t.equal(result.created, true)
+  t.equal(result.document?.id, 'foo')
+  // same as insert
+  t.equal(result.document?.version, 0)
+
+  result = await ctr.upsertById('foo', { foo: 'baz' })
+  t.equal(result.created, false)
+  t.equal(result.document?.version, 1)
+})
+
+t.test('upsert soft deleted', async function (t) {
+  t.plan(3)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('upsertSoftDeleted'), { logger: { level: 'silent' }, softDelete: true })
+  await ctr.ready()
+
+  await ctr.upsertById('foo', { foo: 'bar' })
+  await ctr.deleteById('foo')
+  await t.rejects(ctr.upsertById('foo', { foo: 'baz' }), new SoftDeletedError('foo'))
+
+  await ctr.restoreById('foo')
+  const result = await ctr.upsertById('foo', { foo: 'baz' })
+  t.equal(result.created, false)
+  t.equal(result.document?.foo, 'baz')
+})
+
+t.test('upsert validation', async function (t) {
+  t.plan(4)
+  const db = await build(t)
+  const ctr = new Controller(db.collection('upsertValidation'), {
+    logger: { level: 'silent' },
+    schema: { type: 'object', properties: { name: { type: 'string' }, value: { type: 'number' } }, required: ['name', 'value'] }
+  })
+
+  // created document is validated in full mode
+  await t.rejects(ctr.upsertById('foo', { $set: { value: 1 } }), new ValidationError([{ path: 'name', message: 'is required' }]))
+
+  ctr.once('pre-insert', function (doc: any) {
+    t.same({ id: doc.id, name: doc.name, value: doc.value }, { id: 'bar', name: 'bar', value: 1 })
+  })
+  const result = await ctr.upsertOne({ id: 'bar', name: 'bar' }, { $set: { value: 1 } })
+  t.equal(result.created, true)
+
+  // update is validated in partial mode
+  const updated = await ctr.upsertById('bar', { value: 2 })
+  t.equal(updated.created, false)
+})
@@ -0,0 +1,57 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { ConflictError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+t.test('version', async function (t) {
+  t.plan(8)
+  const db = await build(t)
+  const collection = db.collection('version')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, versionKey: 'version' })
+  const inserted = await ctr.insertMany([{ foo: 'bar' }, { foo: 'bar' }])
+  t.equal(inserted[0].version, 0)
+
+  const result = await ctr.updateById(inserted[0].id, { foo: 'baz' }, { expectedVersion: 0 })
+  t.equal(result?.version, 1)
+  t.equal(result?.foo, 'baz')
+
+  try {
+    await ctr.updateById(inserted[0].id, { foo: 'foo' }, { expectedVersion: 0 })
+  } catch (err: any) {
+    t.equal(err instanceof ConflictError, true)
+    t.equal(err.expectedVersion, 0)
+    t.equal(err.actualVersion, 1)
+  }
+
+  try {
+    await ctr.updateMany({ foo: { $exists: true } }, { foo: 'foo' }, { expectedVersion: 0 })
+  } catch (err: any) {
+    t.equal(err instanceof ConflictError, true)
+  }
+
+  const found = await ctr.findById(inserted[1].id)
+  t.equal(found?.foo, 'bar')
+})
+
+t.test('version conflict after partial updateMany', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+  const collection = db.collection('versionPartial')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, versionKey: 'version' })
+  const [a, b] = await ctr.insertMany([{ foo: 'bar' }, { foo: 'bar' }])
+  // another client changes the document between version check and update
+  const updateMany = collection.updateMany.bind(collection)
+  collection.updateMany = async function (...args: any[]) {
+    await collection.updateOne({ id: b.id }, { $set: { foo: 'qux' }, $inc: { version: 1 } })
+    return await updateMany(args[0], args[1], args[2])
+  } as any
+
+  let written: any[] = []
+  ctr.on('post-update-many', function (docs: any[]) {
+    written = docs
+  })
+  await t.rejects(ctr.updateMany({}, { foo: 'baz' }, { expectedVersion: 0 }), new ConflictError(0))
+  t.same(written.map((doc) => doc.id), [a.id])
+})
@@ -0,0 +1,92 @@
+import t from 'tap'
+import { setTimeout as sleep } from 'timers/promises'
+import { Controller } from '../../lib/controller/default'
+import { buildReplSet } from '../utils/factory'
+
+t.test('watch', async function (t) {
+  t.plan(6)
+  const { db } = await buildReplSet(t)
+  const collection = db.collection('watch')
+  await db.createCollection('watch')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' } })
+  const stream = ctr.watch({ fullDocument: 'updateLookup' })
+
+  let token: unknown
+  await new Promise<void>(function (resolve, reject) {
+    ctr.once('change:insert', function (change: any) { token = change._id; t.equal(change.fullDocument.foo, 'bar') })
+    ctr.once('change:update', function (change: any) { t.equal(change.fullDocument?.foo, 'baz') })
+    ctr.once('change:replace', function (change: any) { t.equal(change.fullDocument.foo, 'qux') })
+    ctr.once('change:delete', function (change: any) { t.ok(change.documentKey._id); resolve() })
+    // change stream is opened asynchronously
+    sleep(500).then(async function () {
+      // write outside of controller
+      await collection.insertOne({ id: 'foo', foo: 'bar' })
+      await collection.updateOne({ id: 'foo' }, { $set: { foo: 'baz' } })
+      await collection.replaceOne({ id: 'foo' }, { id: 'foo', foo: 'qux' })
+      await collection.deleteOne({ id: 'foo' })
+    }).catch(reject)
+  })
+  await stream.close()
+
+  // resume after the insert event and only watch the deletion
+  const resumed = ctr.watch({ resumeAfter: token, pipeline: [{ $match: { operationType: 'delete' } }] })
+  let inserted = false
+  ctr.once('change:insert', function () { inserted = true })
+  await new Promise<void>(function (resolve) {
+    ctr.once('change:delete', function (change: any) {
+      t.equal(change.operationType, 'delete')
+      resolve()
+    })
+  })
+  await resumed.close()
+  t.equal(inserted, false)
+})
+
+t.test('watch with tenant', async function (t) {
+  t.plan(1)
+  const { db } = await buildReplSet(t)
+  const collection = db.collection('watchTenant')
+  await db.createCollection('watchTenant')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, tenantKey: 'tenantId' })
+  const stream = ctr.forTenant('foo').watch()
+
+  const tenants: string[] = []
+  await new Promise<void>(function (resolve, reject) {
+    ctr.on('change:update', function (change: any) {
+      tenants.push(change.fullDocument.tenantId)
+      if (change.fullDocument.id === 'last') resolve()
+    })
+    sleep(500).then(async function () {
+      await collection.insertMany([{ id: 'bar', tenantId: 'bar' }, { id: 'last', tenantId: 'foo' }])
+      await collection.updateOne({ id: 'bar' }, { $set: { value: 1 } })
+      await collection.updateOne({ id: 'last' }, { $set: { value: 1 } })
+    }).catch(reject)
+  })
+  await stream.close()
+  // update of other tenant is not emitted
+  t.same(tenants, ['foo'])
+})
+
+t.test('watch does not apply read policy', async function (t) {
+  t.plan(1)
+  const { db } = await buildReplSet(t)
+  const collection = db.collection('watchPolicy')
+  await db.createCollection('watchPolicy')
+
+  const ctr = new Controller(collection, { logger: { level: 'silent' }, policies: { read: () => false } })
+  const stream = ctr.forActor({ id: 'foo' }).watch()
+
+  await new Promise<void>(function (resolve, reject) {
+    ctr.once('change:insert', function (change: any) {
+      // read policy must be applied by the pipeline of watch
+      t.equal(change.fullDocument.id, 'foo')
+      resolve()
+    })
+    sleep(500).then(async function () {
+      await collection.insertOne({ id: 'foo' })
+    }).catch(reject)
+  })
+  await stream.close()
+})
@@ -0,0 +1,86 @@
+import t from 'tap'
+import { Controller } from '../../lib/controller/default'
+import { MigrationRunner } from '../../lib/migration/runner'
+import { MigrationLockError } from '../../lib/utils/error'
+import { build } from '../utils/factory'
+
+t.test('constructor', function (t) {
+  t.plan(2)
+  t.throws(() => new MigrationRunner(), new Error('db expected to be an object, but recieved "undefined"'))
+  const runner = new MigrationRunner({ collection: () => ({}) } as any, { logger: { level: 'silent' } })
+  t.throws(() => runner.register({ name: 'foo', up: async () => {} }, { name: 'foo', up: async () => {} }), new Error('migration "foo" is already registered'))
+})
+
+t.test('migration', async function (t) {
+  t.plan(13)
+  const db = await build(t)
+  const users = new Controller(db.collection('migrationUsers'), { logger: { level: 'silent' } })
+  await users.insertMany([{ name: 'foo' }, { name: 'bar' }])
+
+  const runner = new MigrationRunner(db, { logger: { level: 'silent' }, controllers: { users } })
+  runner.register({
+    name: '001-add-role',
+    async up ({ users }) {
+      await users.updateMany({}, { role: 'user' })
+    },
+    async down ({ users }) {
+      await users.updateMany({}, { $unset: { role: '' } })
+    }
+  }, {
+    name: '002-add-admin',
+    async up ({ users }) {
+      await users.insertOne({ name: 'admin', role: 'admin' })
+    },
+    async down ({ users }) {
+      await users.deleteMany({ role: 'admin' })
+    }
+  })
+
+  let events = 0
+  users.on('post-update', function () {
+    events++
+  })
+
+  t.same(await runner.up({ dryRun: true }), ['001-add-role', '002-add-admin'])
+  t.equal(await users.count({ filter: 'role:user' }), 0)
+
+  t.same(await runner.up({ to: '001-add-role' }), ['001-add-role'])
+  t.equal(await users.count({ filter: 'role:user' }), 2)
+  // run through controller, so the update is stamped and emitted
+  t.ok((await users.findOne({ name: 'foo' }))?.updatedAt instanceof Date)
+  t.equal(events, 1)
+
+  t.same(await runner.up(), ['002-add-admin'])
+  t.same(await runner.up(), [])
+  t.same((await runner.status()).map((s) => s.applied), [true, true])
+
+  t.same(await runner.down(), ['002-add-admin'])
+  t.same(await runner.down({ dryRun: true, to: '001-add-role' }), [])
+
+  await db.collection('_migrations_lock').insertOne({ _id: 'lock' as any, owner: 'other', lockedAt: new Date() })
+  await t.rejects(runner.down(), new MigrationLockError())
+
+  // stale lock is taken over
+  runner.lockTimeout = 0
+  t.same(await runner.down(), ['001-add-role'])
+})
+
+t.test('lock is refreshed while running', async function (t) {
+  t.plan(2)
+  const db = await build(t)
+  const runner = new MigrationRunner(db, { logger: { level: 'silent' }, collectionName: '_migrations_heartbeat', lockTimeout: 200 })
+  const other = new MigrationRunner(db, { logger: { level: 'silent' }, collectionName: '_migrations_heartbeat', lockTimeout: 200 })
+  runner.register({
+    name: '001-slow',
+    async up () {
+      await new Promise((resolve) => setTimeout(resolve, 500))
+    }
+  })
+  other.register({ name: '001-slow', up: async () => {} })
+
+  const running = runner.up()
+  await new Promise((resolve) => setTimeout(resolve, 300))
+  // lock is acquired longer than lockTimeout ago, but it is still held
+  await t.rejects(other.up(), new MigrationLockError())
+  t.same(await running, ['001-slow'])
+})
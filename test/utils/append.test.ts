@@ -50,3 +50,73 @@ t.test('pass update query to appendUpdateSchema', function (t) {
   t.equal('createdAt' in set, false, 'should not add "createdAt"')
   t.equal('updatedAt' in set, true, 'should add "updatedAt"')
 })
+
+t.test('pass versionKey to appendBasicSchema', function (t) {
+  t.plan(2)
+  const result: any = appendBasicSchema({ foo: 'bar' }, undefined, { versionKey: 'version' })
+  t.equal(result.foo, 'bar', 'should have original props')
+  t.equal(result.version, 0, 'should add "version"')
+})
+
+t.test('pass versionKey to appendUpdateSchema', function (t) {
+  t.plan(4)
+  const result = appendUpdateSchema({ foo: 'bar', version: 10 }, undefined, { versionKey: 'version' }) as any
+  t.equal(result.$set.foo, 'bar', 'should have original props')
+  t.equal('version' in result.$set, false, 'should remove "version"')
+  t.equal('updatedAt' in result.$set, true, 'should add "updatedAt"')
+  t.same(result.$inc, { version: 1 }, 'should increase "version"')
+})
+
+t.test('pass generateId to appendBasicSchema', function (t) {
+  t.plan(2)
+  const result: any = appendBasicSchema({ foo: 'bar' }, undefined, { generateId: (doc) => `${String(doc.foo)}-id` })
+  t.equal(result.foo, 'bar', 'should have original props')
+  t.equal(result.id, 'bar-id', 'should use generated "id"')
+})
+
+t.test('pass preserve to appendBasicSchema', function (t) {
+  t.plan(5)
+  const date = new Date(0)
+  const result: any = appendBasicSchema({ id: 'foo', createdAt: date }, undefined, { preserve: true, versionKey: 'version' })
+  t.equal(result.id, 'foo', 'should keep "id"')
+  t.equal(result.createdAt, date, 'should keep "createdAt"')
+  t.equal(result.updatedAt instanceof Date && result.updatedAt !== date, true, 'should add missing "updatedAt"')
+  t.equal(result.version, 0, 'should add missing "version"')
+  const generated: any = appendBasicSchema({ id: '' }, undefined, { preserve: true })
+  t.not(generated.id, '', 'should replace empty "id"')
+})
+
+t.test('pass field names to appendBasicSchema', function (t) {
+  t.plan(5)
+  const result: any = appendBasicSchema({ foo: 'bar' }, undefined, { idKey: 'uuid', createdAtKey: 'created_at', updatedAtKey: false })
+  t.equal(typeof result.uuid, 'string', 'should add "uuid"')
+  t.equal('id' in result, false, 'should not add "id"')
+  t.equal(result.created_at instanceof Date, true, 'should add "created_at"')
+  t.equal('createdAt' in result, false, 'should not add "createdAt"')
+  t.equal('updatedAt' in result, false, 'should not add "updatedAt"')
+})
+
+t.test('pass field names to appendUpdateSchema', function (t) {
+  t.plan(4)
+  let result: any = appendUpdateSchema({ uuid: 'foo', created_at: new Date(), bar: 'baz' }, undefined, { idKey: 'uuid', createdAtKey: 'created_at', updatedAtKey: 'modified_at' })
+  t.equal('uuid' in result, false, 'should remove "uuid"')
+  t.equal('created_at' in result, false, 'should remove "created_at"')
+  t.equal(result.modified_at instanceof Date, true, 'should add "modified_at"')
+
+  result = appendUpdateSchema({ $inc: { foo: 1 } }, undefined, { updatedAtKey: false })
+  t.same(result, { $inc: { foo: 1 } }, 'should not add empty $set')
+})
+
+t.test('pass tenantKey to appendUpdateSchema', function (t) {
+  t.plan(5)
+  let result: any = appendUpdateSchema({ tenantId: 'other', bar: 'baz' }, undefined, { tenantKey: 'tenantId' })
+  t.equal('tenantId' in result, false, 'should remove "tenantId"')
+  result = appendUpdateSchema({ $set: { tenantId: 'other', 'tenantId.foo': 'bar' } }, undefined, { tenantKey: 'tenantId' })
+  t.same(Object.keys(result.$set), ['updatedAt'], 'should remove "tenantId" from $set')
+  result = appendUpdateSchema({ $unset: { tenantId: '' } }, undefined, { tenantKey: 'tenantId' })
+  t.equal('$unset' in result, false, 'should remove empty $unset')
+  result = appendUpdateSchema({ $rename: { tenantId: 'foo', bar: 'tenantId', baz: 'qux' } }, undefined, { tenantKey: 'tenantId' })
+  t.same(result.$rename, { baz: 'qux' }, 'should remove "tenantId" from $rename')
+  result = appendUpdateSchema({ $unset: { tenantId: '' } }, undefined, { tenantKey: 'tenantId', versionKey: 'version' })
+  t.same(Object.keys(result), ['$set', '$inc'], 'should remove "tenantId" with versionKey')
+})
@@ -0,0 +1,64 @@
+import t from 'tap'
+import { Binary, Decimal128, ObjectId } from 'mongodb'
+import { computeCacheKey, LRUCacheStore } from '../../lib/utils/cache'
+
+t.test('LRUCacheStore', async function (t) {
+  t.plan(5)
+  const store = new LRUCacheStore({ max: 2 })
+  await store.set('foo', 1)
+  await store.set('bar', 2)
+  // foo become the most recently used
+  t.equal(await store.get('foo'), 1)
+  await store.set('baz', 3)
+  t.equal(store.size, 2)
+  t.equal(await store.get('bar'), undefined)
+
+  await store.delete('foo')
+  t.equal(await store.get('foo'), undefined)
+
+  await store.clear()
+  t.equal(store.size, 0)
+})
+
+t.test('LRUCacheStore - clone', async function (t) {
+  t.plan(3)
+  const store = new LRUCacheStore()
+  const value = { foo: 'bar', date: new Date(0) }
+  await store.set('foo', value)
+  value.foo = 'baz'
+  const cached = await store.get('foo') as typeof value
+  t.same(cached, { foo: 'bar', date: new Date(0) })
+  t.ok(cached.date instanceof Date)
+  cached.foo = 'baz'
+  t.same(await store.get('foo'), { foo: 'bar', date: new Date(0) })
+})
+
+t.test('LRUCacheStore - BSON types', async function (t) {
+  t.plan(4)
+  const store = new LRUCacheStore()
+  const id = new ObjectId()
+  await store.set('foo', [{ _id: id, price: Decimal128.fromString('1.5'), data: new Binary(Buffer.from('foo')) }])
+  const [cached] = await store.get('foo') as any[]
+  t.ok(cached._id instanceof ObjectId)
+  t.ok(cached.price instanceof Decimal128)
+  t.equal(cached.price.toString(), '1.5')
+  t.ok(cached.data instanceof Binary)
+})
+
+t.test('LRUCacheStore - ttl', async function (t) {
+  t.plan(3)
+  const store = new LRUCacheStore({ ttl: 10 })
+  await store.set('foo', 1)
+  await store.set('bar', 2, 0)
+  t.equal(await store.get('foo'), 1)
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  t.equal(await store.get('foo'), undefined)
+  t.equal(await store.get('bar'), 2)
+})
+
+t.test('compute cache key', function (t) {
+  t.plan(3)
+  t.equal(computeCacheKey('id', 'foo'), 'id:["foo"]')
+  t.not(computeCacheKey('find-one', { foo: /bar/ }), computeCacheKey('find-one', { foo: /baz/ }))
+  t.not(computeCacheKey('find-one', { foo: new Date(0) }), computeCacheKey('find-one', { foo: new Date(1) }))
+})
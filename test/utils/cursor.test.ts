@@ -0,0 +1,34 @@
+import t from 'tap'
+import { computeKeysetQuery, decodeCursor, encodeCursor, retrieveValueByPath } from '../../lib/utils/cursor'
+
+t.test('encode and decode cursor', function (t) {
+  t.plan(1)
+  const date = new Date('2020-01-01T00:00:00.000Z')
+  const data = { direction: 'next' as const, sort: { createdAt: -1 as const, id: 1 as const }, values: [date, 'foo'] }
+  t.same(decodeCursor(encodeCursor(data)), data)
+})
+
+t.test('decode invalid cursor', function (t) {
+  t.plan(3)
+  t.throws(() => decodeCursor('foo'), 'invalid cursor "foo"')
+  t.throws(() => decodeCursor(Buffer.from('["foo",{},[]]').toString('base64url')))
+  // query operator can not be injected by forged cursor
+  t.throws(() => decodeCursor(Buffer.from('["next",{"name":1,"id":1},[{"$regex":".*"},""]]').toString('base64url')))
+})
+
+t.test('retrieve value by path', function (t) {
+  t.plan(3)
+  t.equal(retrieveValueByPath({ foo: 'bar' }, 'foo'), 'bar')
+  t.equal(retrieveValueByPath({ foo: { bar: 'baz' } }, 'foo.bar'), 'baz')
+  t.equal(retrieveValueByPath({ foo: null }, 'foo.bar'), null)
+})
+
+t.test('compute keyset query', function (t) {
+  t.plan(2)
+  t.same(computeKeysetQuery({ direction: 'next', sort: { foo: -1, id: 1 }, values: ['bar', 'baz'] }), {
+    $or: [{ foo: { $lt: 'bar' } }, { foo: { $eq: 'bar' }, id: { $gt: 'baz' } }]
+  })
+  t.same(computeKeysetQuery({ direction: 'prev', sort: { foo: -1, id: 1 }, values: ['bar', 'baz'] }), {
+    $or: [{ foo: { $gt: 'bar' } }, { foo: { $eq: 'bar' }, id: { $lt: 'baz' } }]
+  })
+})
@@ -1,6 +1,6 @@
 import { Db, MongoClient } from 'mongodb'
 import { promisify } from 'util'
-import { createMongoDB } from './mongodb'
+import { createMongoDB, createMongoDBReplSet } from './mongodb'
 const sleep = promisify(setTimeout)
 
 export async function build (t: any): Promise<Db> {
@@ -19,3 +19,21 @@ export async function build (t: any): Promise<Db> {
 
   return db
 }
+
+// transaction and change stream require replica set
+export async function buildReplSet (t: any): Promise<{ db: Db, client: MongoClient }> {
+  const o = await createMongoDBReplSet()
+  process.env.MONGODB_URL = o.uri
+  const connection = await MongoClient.connect(o.uri)
+  const db = await connection.db()
+
+  t.teardown(async function () {
+    // we need to wait some time before exit
+    // main reason is mongodb is still processing data
+    await sleep(500)
+    await connection.close()
+    await o.mongodb.stop()
+  })
+
+  return { db, client: connection }
+}
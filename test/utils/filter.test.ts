@@ -0,0 +1,83 @@
+import t from 'tap'
+import { FilterSyntaxError } from '../../lib/utils/error'
+import { compileFilter, parseFilter, retrieveFilterKeys } from '../../lib/utils/filter'
+
+function compile (text: string): unknown[] {
+  return parseFilter(text).map(compileFilter)
+}
+
+t.test('empty filter', function (t) {
+  t.plan(2)
+  t.same(parseFilter(''), [])
+  t.same(parseFilter('  '), [])
+})
+
+t.test('legacy filter', function (t) {
+  const cases = [
+    { input: 'foo:bar', output: [{ foo: 'bar' }] },
+    { input: 'foo:bar,hello:world,', output: [{ foo: 'bar' }, { hello: 'world' }] },
+    { input: ' foo:bar,baz:1', output: [{ foo: 'bar' }, { baz: 1 }] },
+    { input: 'foo:true,bar:1,baz:1.01', output: [{ foo: true }, { bar: 1 }, { baz: 1.01 }] },
+    { input: 'foo:{"foo":["123","456"],"bar":{"hello":"wo,rld}"}}', output: [{ foo: { foo: [123, 456], bar: { hello: 'wo,rld}' } } }] },
+    { input: 'createdAt:{"$gt":"2020-01-01T00:00:00.000Z"}', output: [{ createdAt: { $gt: new Date('2020-01-01T00:00:00.000Z') } }] },
+    { input: '$expr:{"$gte":["$createdAt",{"$dateFromString":{"dateString":"2021-01-01T00:00:00.000Z"}}]}', output: [{ $expr: { $gte: ['$createdAt', { $dateFromString: { dateString: '2021-01-01T00:00:00.000Z' } }] } }] }
+  ]
+  t.plan(cases.length)
+  for (const kase of cases) {
+    t.same(compile(kase.input), kase.output, kase.input)
+  }
+})
+
+t.test('extended filter', function (t) {
+  const cases = [
+    { input: 'age>18', output: [{ age: { $gt: 18 } }] },
+    { input: 'age>=18,age<65', output: [{ age: { $gte: 18 } }, { age: { $lt: 65 } }] },
+    { input: 'age<=18', output: [{ age: { $lte: 18 } }] },
+    { input: 'status!=draft', output: [{ status: { $ne: 'draft' } }] },
+    { input: 'name:"foo, bar"', output: [{ name: 'foo, bar' }] },
+    { input: "name:'1'", output: [{ name: '1' }] },
+    { input: 'name:"say \\"hi\\""', output: [{ name: 'say "hi"' }] },
+    { input: 'a:1,(b:2 | c:3)', output: [{ a: 1 }, { $or: [{ b: 2 }, { c: 3 }] }] },
+    { input: 'b:2|c:3', output: [{ $or: [{ b: 2 }, { c: 3 }] }] },
+    { input: '(a:1,b:2)|c:3', output: [{ $or: [{ $and: [{ a: 1 }, { b: 2 }] }, { c: 3 }] }] },
+    { input: '!a:1', output: [{ $nor: [{ a: 1 }] }] },
+    { input: '!(a:1|b:2)', output: [{ $nor: [{ $or: [{ a: 1 }, { b: 2 }] }] }] },
+    // ")" is only a delimiter inside a group
+    { input: 'name:foo (bar)', output: [{ name: 'foo (bar)' }] },
+    { input: '(name:foo),b:2', output: [{ name: 'foo' }, { b: 2 }] },
+    // quote keeps the delimiter as literal
+    { input: 'name:"foo|bar"', output: [{ name: 'foo|bar' }] },
+    { input: '(name:"foo (bar)")', output: [{ name: 'foo (bar)' }] }
+  ]
+  t.plan(cases.length)
+  for (const kase of cases) {
+    t.same(compile(kase.input), kase.output, kase.input)
+  }
+})
+
+t.test('invalid filter', function (t) {
+  const cases = [
+    { input: 'foo', offset: 3 },
+    { input: '[]', offset: 0 },
+    { input: '(foo:bar))', offset: 9 },
+    { input: '(foo:bar', offset: 8 },
+    { input: 'foo:{"bar":1', offset: 4 },
+    { input: 'foo:"bar', offset: 4 },
+    { input: 'foo:bar,,', offset: 8 },
+    { input: 'fo#o:bar', offset: 2 }
+  ]
+  t.plan(cases.length * 2)
+  for (const kase of cases) {
+    try {
+      parseFilter(kase.input)
+    } catch (err: any) {
+      t.equal(err instanceof FilterSyntaxError, true, kase.input)
+      t.equal(err.offset, kase.offset, kase.input)
+    }
+  }
+})
+
+t.test('retrieve filter keys', function (t) {
+  t.plan(1)
+  t.same(parseFilter('a:1,!(b:2|c.d:3)').flatMap(retrieveFilterKeys), ['a', 'b', 'c.d'])
+})
@@ -0,0 +1,30 @@
+import t from 'tap'
+import { idStrategies, resolveIdStrategy, ulid } from '../../lib/utils/id'
+
+t.test('ulid', function (t) {
+  t.plan(3)
+  const id = ulid(0)
+  t.equal(id.length, 26)
+  t.equal(id.slice(0, 10), '0000000000')
+  // sortable by time
+  t.equal(ulid(1) < ulid(2), true)
+})
+
+t.test('built-in strategies', function (t) {
+  t.plan(8)
+  t.equal(idStrategies.uuid.validate(idStrategies.uuid.generate({}, 'id')), true)
+  t.equal(idStrategies.uuid.validate('foo'), false)
+  t.equal(idStrategies.ulid.validate(idStrategies.ulid.generate({}, 'id')), true)
+  t.equal(idStrategies.ulid.validate('0000000000000000000000000U'), false)
+  t.equal(idStrategies.objectId.validate(idStrategies.objectId.generate({}, 'id')), true)
+  t.equal(idStrategies.objectId.validate('foo'), false)
+  t.equal(idStrategies['preserve-if-present'].generate({ uuid: 'foo' }, 'uuid'), 'foo')
+  t.equal(idStrategies['preserve-if-present'].validate(''), false)
+})
+
+t.test('resolve id strategy', function (t) {
+  t.plan(3)
+  t.equal(resolveIdStrategy('ulid'), idStrategies.ulid)
+  t.equal(resolveIdStrategy(() => 'foo').generate({}, 'id'), 'foo')
+  t.throws(() => resolveIdStrategy('foo' as any), new Error('unknown id strategy "foo"'))
+})
@@ -0,0 +1,33 @@
+import t from 'tap'
+import { computeIndexName, diffIndexOptions, isSameIndexKey, normalizeIndexKey } from '../../lib/utils/indexes'
+
+t.test('normalizeIndexKey', function (t) {
+  t.plan(4)
+  t.same(normalizeIndexKey('foo'), { foo: 1 })
+  t.same(normalizeIndexKey({ foo: 1, bar: -1 }), { foo: 1, bar: -1 })
+  t.same(normalizeIndexKey([['foo', 1], ['bar', -1]]), { foo: 1, bar: -1 })
+  t.same(normalizeIndexKey(new Map([['foo', 1]])), { foo: 1 })
+})
+
+t.test('computeIndexName', function (t) {
+  t.plan(2)
+  t.equal(computeIndexName({ id: 1 }), 'id_1')
+  t.equal(computeIndexName({ foo: 1, bar: -1, baz: 'text' }), 'foo_1_bar_-1_baz_text')
+})
+
+t.test('isSameIndexKey', function (t) {
+  t.plan(2)
+  t.equal(isSameIndexKey({ foo: 1, bar: 1 }, { foo: 1, bar: 1 }), true)
+  t.equal(isSameIndexKey({ foo: 1, bar: 1 }, { bar: 1, foo: 1 }), false)
+})
+
+t.test('diffIndexOptions', function (t) {
+  t.plan(4)
+  t.same(diffIndexOptions('id_1', { unique: true }, { name: 'id_1', unique: true }), [])
+  t.same(diffIndexOptions('id_1', {}, { name: 'id_1', unique: false }), [])
+  t.same(diffIndexOptions('id_1', { unique: true, expireAfterSeconds: 60 }, { name: 'id_1' }), [
+    { name: 'id_1', option: 'unique', expected: true, actual: false },
+    { name: 'id_1', option: 'expireAfterSeconds', expected: 60, actual: undefined }
+  ])
+  t.same(diffIndexOptions('foo_1', { collation: { locale: 'en' } }, { name: 'foo_1', collation: { locale: 'en', strength: 3 } }), [])
+})
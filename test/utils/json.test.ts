@@ -0,0 +1,25 @@
+import t from 'tap'
+import { ObjectId } from 'mongodb'
+import { isPlainObject, parseJSON, stringifyJSON } from '../../lib/utils/json'
+
+const date = new Date('2022-01-01T00:00:00.000Z')
+
+t.test('stringifyJSON and parseJSON', function (t) {
+  t.plan(4)
+  const text = stringifyJSON({ foo: date, bar: { baz: [date] } })
+  t.equal(text, '{"foo":{"$date":"2022-01-01T00:00:00.000Z"},"bar":{"baz":[{"$date":"2022-01-01T00:00:00.000Z"}]}}')
+  t.same(parseJSON(text), { foo: date, bar: { baz: [date] } })
+  t.same(parseJSON('{"$date":"foo"}'), { $date: 'foo' })
+  const id = new ObjectId()
+  const o = parseJSON(stringifyJSON({ id, regexp: /foo/i }))
+  t.same([o.id instanceof ObjectId, o.id.toHexString(), o.regexp.source, o.regexp.flags], [true, id.toHexString(), 'foo', 'i'])
+})
+
+t.test('isPlainObject', function (t) {
+  t.plan(5)
+  t.equal(isPlainObject({}), true)
+  t.equal(isPlainObject([]), false)
+  t.equal(isPlainObject(null), false)
+  t.equal(isPlainObject(date), false)
+  t.equal(isPlainObject(new ObjectId()), false)
+})
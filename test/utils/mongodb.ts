@@ -1,4 +1,4 @@
-import { MongoMemoryServer } from 'mongodb-memory-server'
+import { MongoMemoryReplSet, MongoMemoryServer } from 'mongodb-memory-server'
 
 export async function createMongoDB (): Promise<{ uri: string, mongodb: MongoMemoryServer }> {
   const mongodb = await MongoMemoryServer.create()
@@ -7,3 +7,11 @@ export async function createMongoDB (): Promise<{ uri: string, mongodb: MongoMem
     mongodb
   }
 }
+
+export async function createMongoDBReplSet (): Promise<{ uri: string, mongodb: MongoMemoryReplSet }> {
+  const mongodb = await MongoMemoryReplSet.create({ replSet: { count: 1 } })
+  return {
+    uri: mongodb.getUri(),
+    mongodb
+  }
+}
@@ -0,0 +1,11 @@
+import t from 'tap'
+import { matchPolicyFilter } from '../../lib/utils/policy'
+
+t.test('matchPolicyFilter', function (t) {
+  t.plan(5)
+  t.equal(matchPolicyFilter({ authorId: 'foo' }, { authorId: 'foo' }), true)
+  t.equal(matchPolicyFilter({ authorId: 'bar' }, { authorId: 'foo' }), false)
+  t.equal(matchPolicyFilter({ meta: { status: 'draft' } }, { 'meta.status': 'draft' }), true)
+  t.equal(matchPolicyFilter({}, {}), true)
+  t.throws(() => matchPolicyFilter({ value: 1 }, { value: { $gt: 0 } }), new Error('policy filter of insert only support equality condition, but received "value"'))
+})
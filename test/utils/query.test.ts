@@ -1,5 +1,5 @@
 import t from 'tap'
-import { findNextPair, isUpdateQuery, mergeUpdateQueryData, normalize } from '../../lib/utils/query'
+import { isAllowedKey, isUpdateQuery, mergeUpdateQueryData, normalize, retrieveFilterEquality, retrieveQueryOperators } from '../../lib/utils/query'
 
 t.test('should be update query', function (t) {
   const keys = ['$currentDate', '$inc', '$min', '$max', '$mul', '$rename', '$set', '$setOnInsert', '$unset', '$addToSet', '$pop', '$pull', '$push', '$pushAll', '$bit']
@@ -28,58 +28,23 @@ t.test('should merge update query', function (t) {
   }
 })
 
-t.test('empty string findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 0)
-  t.equal(key, '')
-  t.equal(value, '')
+t.test('retrieveQueryOperators', function (t) {
+  t.plan(3)
+  t.same(retrieveQueryOperators({ foo: 'bar' }), [])
+  t.same(retrieveQueryOperators({ foo: { $gt: new Date() } }), ['$gt'])
+  t.same(retrieveQueryOperators([{ $expr: { $and: [{ $lookup: {} }] } }]), ['$expr', '$and', '$lookup'])
 })
 
-t.test('invalid key string findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('[]')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 0)
-  t.equal(key, '')
-  t.equal(value, '')
-})
-
-t.test('no value pairs findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('foo')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 0)
-  t.equal(key, 'foo')
-  t.equal(value, '')
-})
-
-t.test('no delimiter pairs findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('foo:bar')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 0)
-  t.equal(key, 'foo')
-  t.equal(value, 'bar')
-})
-
-t.test('normal pairs findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('foo:bar,hello:world,')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 8)
-  t.equal(key, 'foo')
-  t.equal(value, 'bar')
+t.test('retrieveFilterEquality', function (t) {
+  t.plan(1)
+  t.same(retrieveFilterEquality({ id: 'foo', name: { first: 'bar' }, value: { $gt: 1 }, 'meta.tag': 'baz', $or: [{ a: 1 }] }), { id: 'foo', name: { first: 'bar' } })
 })
 
-t.test('json pairs findNextPair', function (t) {
-  t.plan(4)
-  const { startIndex, endIndex, key, value } = findNextPair('foo:{"foo":["123","456"],"bar":{"hello":"world}},')
-  t.equal(startIndex, 0)
-  t.equal(endIndex, 49)
-  t.equal(key, 'foo')
-  t.equal(value, '{"foo":["123","456"],"bar":{"hello":"world}}')
+t.test('isAllowedKey', function (t) {
+  t.plan(3)
+  t.equal(isAllowedKey(['foo'], 'foo'), true)
+  t.equal(isAllowedKey(['foo'], 'foo.bar'), true)
+  t.equal(isAllowedKey(['foo'], 'foobar'), false)
 })
 
 const cases: Array<{
@@ -0,0 +1,63 @@
+import t from 'tap'
+import { JSONSchema, resolveSchemaByPath, validate } from '../../lib/utils/schema'
+
+const schema: JSONSchema = {
+  type: 'object',
+  required: ['name', 'age'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    status: { enum: ['draft', 'published'] },
+    createdAt: { bsonType: 'date' },
+    address: {
+      type: 'object',
+      properties: {
+        city: { type: 'string' }
+      }
+    },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+  }
+}
+
+t.test('validate valid document', function (t) {
+  t.plan(1)
+  t.same(validate(schema, { name: 'foo', age: 1, status: 'draft', createdAt: new Date(), address: { city: 'bar' }, tags: ['a', 'b'] }), [])
+})
+
+t.test('validate invalid document', function (t) {
+  t.plan(1)
+  t.same(validate(schema, { name: '', status: 'foo', createdAt: 'bar', address: { city: 1 }, tags: ['a', 'a'], foo: 'bar' }), [
+    { path: 'age', message: 'is required' },
+    { path: 'name', message: 'must not have fewer than 1 characters' },
+    { path: 'status', message: 'must be one of the allowed values' },
+    { path: 'createdAt', message: 'must be date' },
+    { path: 'address.city', message: 'must be string' },
+    { path: 'tags', message: 'must not have duplicate items' },
+    { path: 'foo', message: 'is not allowed' }
+  ])
+})
+
+t.test('validate partial document', function (t) {
+  t.plan(2)
+  t.same(validate(schema, { name: 'foo', 'address.city': 'bar', 'tags.0': 'baz' }, { partial: true }), [])
+  t.same(validate(schema, { age: -1, 'address.city': 1, 'foo.bar': 1 }, { partial: true }), [
+    { path: 'address.city', message: 'must be string' },
+    { path: 'foo.bar', message: 'is not allowed' },
+    { path: 'age', message: 'must be >= 0' }
+  ])
+})
+
+t.test('validate combined schema', function (t) {
+  t.plan(3)
+  t.same(validate({ anyOf: [{ type: 'string' }, { type: 'number' }] }, true), [{ path: '', message: 'must match at least one schema in anyOf' }])
+  t.same(validate({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1), [{ path: '', message: 'must match exactly one schema in oneOf' }])
+  t.same(validate({ not: { type: 'null' } }, null), [{ path: '', message: 'must not match schema in not' }])
+})
+
+t.test('resolve schema by path', function (t) {
+  t.plan(3)
+  t.same(resolveSchemaByPath(schema, 'address.city'), { type: 'string' })
+  t.same(resolveSchemaByPath(schema, 'tags.0'), { type: 'string' })
+  t.equal(resolveSchemaByPath(schema, 'foo'), false)
+})
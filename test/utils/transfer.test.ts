@@ -0,0 +1,62 @@
+import t from 'tap'
+import { Readable } from 'stream'
+import { ValidationError } from '../../lib/utils/error'
+import { CSVParser, ExportSerializer, ImportRecord, normalizeCSVCell, readImportRecords, stringifyCSVRow } from '../../lib/utils/transfer'
+
+const date = new Date('2022-01-01T00:00:00.000Z')
+
+async function collect (chunks: string[], format: any, columns?: any[]): Promise<ImportRecord[]> {
+  const records: ImportRecord[] = []
+  for await (const record of readImportRecords(Readable.from(chunks.map((chunk) => Buffer.from(chunk))), format, columns)) records.push(record)
+  return records
+}
+
+t.test('csv cell', function (t) {
+  t.plan(11)
+  t.equal(stringifyCSVRow(['foo', 1, true, date, null, undefined, { foo: 'bar' }]), 'foo,1,true,2022-01-01T00:00:00.000Z,,,"{""foo"":""bar""}"\n')
+  // string which is read as another type is quoted
+  t.equal(stringifyCSVRow(['1', 'true', '', 'a,b', 'a"b']), '"1","true","","a,b","a""b"\n')
+  t.equal(normalizeCSVCell({ value: '1', quoted: false }, 'foo'), 1)
+  t.equal(normalizeCSVCell({ value: '1', quoted: true }, 'foo'), '1')
+  t.equal(normalizeCSVCell({ value: '', quoted: false }, 'foo'), undefined)
+  t.equal(normalizeCSVCell({ value: '', quoted: true }, 'foo'), '')
+  t.same(normalizeCSVCell({ value: '2022-01-01T00:00:00.000Z', quoted: false }, 'foo'), date)
+  t.same(normalizeCSVCell({ value: '{"foo":{"$date":"2022-01-01T00:00:00.000Z"}}', quoted: true }, 'foo'), { foo: date })
+  t.equal(normalizeCSVCell({ value: '00123', quoted: false }, 'foo', 'string'), '00123')
+  t.same(normalizeCSVCell({ value: '2022-01-01', quoted: false }, 'foo', 'date'), date)
+  t.throws(() => normalizeCSVCell({ value: 'bar', quoted: false }, 'foo', 'number'), new ValidationError([{ path: 'foo', message: 'must be number' }]))
+})
+
+t.test('csv parser', function (t) {
+  t.plan(3)
+  const parser = new CSVParser()
+  t.same(parser.write('a,"b\n'), [])
+  t.same(parser.write('c""d",e\r\nf'), [[{ value: 'a', quoted: false }, { value: 'b\nc"d', quoted: true }, { value: 'e', quoted: false }]])
+  t.same(parser.end(), [[{ value: 'f', quoted: false }]])
+})
+
+t.test('export serializer', function (t) {
+  t.plan(5)
+  const ndjson = new ExportSerializer('ndjson')
+  t.equal(ndjson.push({ foo: 1 }) + ndjson.push({ foo: 2 }) + ndjson.end(), '{"foo":1}\n{"foo":2}\n')
+  const json = new ExportSerializer('json')
+  t.equal(json.end(), '[]\n')
+  t.equal(json.push({ foo: 1 }) + json.push({ foo: 2 }) + json.end(), '[\n{"foo":1},\n{"foo":2}\n]\n')
+  const csv = new ExportSerializer('csv', ['foo', { field: 'bar.baz', header: 'baz' }])
+  t.equal(csv.push({ foo: 1, bar: { baz: date } }) + csv.end(), 'foo,baz\n1,2022-01-01T00:00:00.000Z\n')
+  t.throws(() => new ExportSerializer('xml' as any), new Error('unknown format "xml"'))
+})
+
+t.test('read import records', async function (t) {
+  t.plan(6)
+  const ndjson = await collect(['{"foo":1}\n{"foo"', ':{"$date":"2022-01-01T00:00:00.000Z"}}\n\nfoo\n[]'], 'ndjson')
+  t.same(ndjson.slice(0, 2), [{ row: 1, doc: { foo: 1 } }, { row: 2, doc: { foo: date } }])
+  t.equal(ndjson[2].error instanceof SyntaxError, true)
+  t.same(ndjson[3], { row: 4, error: new ValidationError([{ path: '', message: 'must be object' }]) })
+
+  t.same(await collect(['[{"foo":1}', ']'], 'json'), [{ row: 1, doc: { foo: 1 } }])
+
+  const csv = await collect(['name,meta.age,ignored\n', 'foo,1,x\n\nbar,baz,y'], 'csv', [{ field: 'name' }, { field: 'meta.age', type: 'number' }])
+  t.same(csv[0], { row: 1, doc: { name: 'foo', meta: { age: 1 } } })
+  t.same(csv[1], { row: 2, error: new ValidationError([{ path: 'meta.age', message: 'must be number' }]) })
+})